@@ -24,8 +24,20 @@ import { AppContextProvider } from './src/contexts';
 import { useAutoConnectExpected } from './src/hooks/useAutoConnect';
 import { useIsTV } from './src/hooks/useIsTV';
 import AboutScreen from './src/screens/AboutScreen';
+import AudioScreen from './src/screens/AudioScreen';
+import ButtonDeckScreen from './src/screens/ButtonDeckScreen';
 import ConnectionHistoryScreen from './src/screens/ConnectionHistoryScreen';
+import MacrosScreen from './src/screens/MacrosScreen';
+import OutputsScreen from './src/screens/OutputsScreen';
+import OverlaysScreen from './src/screens/OverlaysScreen';
+import PresenterPadScreen from './src/screens/PresenterPadScreen';
+import ProjectsScreen from './src/screens/ProjectsScreen';
+import ScriptureScreen from './src/screens/ScriptureScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import ShowLibraryScreen from './src/screens/ShowLibraryScreen';
+import SlidesScreen from './src/screens/SlidesScreen';
+import StageMessagesScreen from './src/screens/StageMessagesScreen';
+import TimersScreen from './src/screens/TimersScreen';
 import { ErrorLogger } from './src/services/ErrorLogger';
 import { FreeShowTheme } from './src/theme/FreeShowTheme';
 
@@ -494,6 +506,23 @@ const FreeShowNavigationTheme = {
   },
 };
 
+// Card transition shared by the API mode sub-screens opened from APIScreen
+const apiPanelScreenOptions = {
+  presentation: 'card' as const,
+  cardStyleInterpolator: ({ current, layouts }: any) => ({
+    cardStyle: {
+      transform: [
+        {
+          translateX: current.progress.interpolate({
+            inputRange: [0, 1],
+            outputRange: [layouts.screen.width, 0],
+          }),
+        },
+      ],
+    },
+  }),
+};
+
 export default function App() {
   // Initialize configuration on app startup
   useEffect(() => {
@@ -668,6 +697,142 @@ export default function App() {
                   </ErrorBoundary>
                 )}
               </Stack.Screen>
+              <Stack.Screen name="Slides" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('SlidesScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <SlidesScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Projects" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('ProjectsScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <ProjectsScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Shows" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('ShowLibraryScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <ShowLibraryScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Outputs" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('OutputsScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <OutputsScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Scripture" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('ScriptureScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <ScriptureScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Timers" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('TimersScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <TimersScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Audio" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('AudioScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <AudioScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="StageMessages" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('StageMessagesScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <StageMessagesScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Overlays" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('OverlaysScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <OverlaysScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="ButtonDeck" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('ButtonDeckScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <ButtonDeckScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen name="Macros" options={apiPanelScreenOptions}>
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('MacrosScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <MacrosScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
+              <Stack.Screen
+                name="PresenterPad"
+                // Swipes on the pad change slides, so they must not also swipe back
+                options={{ ...apiPanelScreenOptions, gestureEnabled: false }}
+              >
+                {props => (
+                  <ErrorBoundary
+                    onError={(error, errorInfo) =>
+                      ErrorLogger.error('PresenterPadScreen Error', 'App', error, { errorInfo })
+                    }
+                  >
+                    <PresenterPadScreen {...props} />
+                  </ErrorBoundary>
+                )}
+              </Stack.Screen>
 
               <Stack.Screen
                 name="ConnectionHistory"
@@ -0,0 +1,73 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { ReactNode } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface APIPanelHeaderProps {
+  title: string;
+  subtitle?: string | null;
+  onBack: () => void;
+  right?: ReactNode;
+}
+
+/**
+ * Header bar shared by the API mode sub-screens
+ * Matches the APIScreen header with a back button, title and optional right-hand action
+ */
+const APIPanelHeader: React.FC<APIPanelHeaderProps> = ({ title, subtitle, onBack, right }) => {
+  return (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={onBack}>
+        <Ionicons name="chevron-back" size={24} color={FreeShowTheme.colors.text} />
+      </TouchableOpacity>
+
+      <View style={styles.titleSection}>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+        {subtitle ? (
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {subtitle}
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={styles.right}>{right}</View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    paddingTop: 10,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderBottomWidth: 1,
+    borderBottomColor: FreeShowTheme.colors.primaryLighter,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  backButton: {
+    padding: FreeShowTheme.spacing.sm,
+  },
+  titleSection: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: 'bold',
+    color: FreeShowTheme.colors.text,
+  },
+  subtitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  right: {
+    minWidth: 40,
+    alignItems: 'flex-end',
+  },
+});
+
+export default APIPanelHeader;
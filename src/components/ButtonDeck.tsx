@@ -0,0 +1,119 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { APIDeck, APIDeckButton } from '../types';
+import FocusableTouchable from './FocusableTouchable';
+
+interface ButtonDeckProps {
+  deck: APIDeck;
+  disabled?: boolean;
+  selectedId?: string | null;
+  onPress: (button: APIDeckButton) => void;
+}
+
+// Icons are stored as plain names, so a stale or mistyped one falls back to a placeholder
+export const getDeckIcon = (icon: string): keyof typeof Ionicons.glyphMap =>
+  icon in Ionicons.glyphMap ? (icon as keyof typeof Ionicons.glyphMap) : 'help-outline';
+
+/**
+ * Grid of user-configured API buttons, laid out in rows of the deck's column count
+ */
+const ButtonDeck: React.FC<ButtonDeckProps> = ({ deck, disabled = false, selectedId, onPress }) => {
+  const columns = Math.max(1, deck.columns);
+  const rows: APIDeckButton[][] = [];
+  for (let i = 0; i < deck.buttons.length; i += columns) {
+    rows.push(deck.buttons.slice(i, i + columns));
+  }
+
+  if (deck.buttons.length === 0) {
+    return <Text style={styles.emptyText}>No buttons in this deck</Text>;
+  }
+
+  return (
+    <View style={styles.grid}>
+      {rows.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.row}>
+          {row.map(button => (
+            <FocusableTouchable
+              key={button.id}
+              style={[
+                styles.button,
+                { backgroundColor: button.color },
+                columns <= 2 && styles.buttonLarge,
+                disabled && styles.buttonDisabled,
+                selectedId === button.id && styles.buttonSelected,
+              ]}
+              onPress={() => onPress(button)}
+              disabled={disabled}
+            >
+              <Ionicons
+                name={getDeckIcon(button.icon)}
+                size={columns <= 2 ? 28 : 22}
+                color="white"
+              />
+              <Text style={styles.buttonText} numberOfLines={2}>
+                {button.label}
+              </Text>
+            </FocusableTouchable>
+          ))}
+          {/* Keep the last row's buttons the same width as the rest */}
+          {Array.from({ length: columns - row.length }, (_, index) => (
+            <View key={`spacer-${index}`} style={styles.spacer} />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    gap: FreeShowTheme.spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: FreeShowTheme.spacing.lg,
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    gap: FreeShowTheme.spacing.xs,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  buttonLarge: {
+    paddingVertical: FreeShowTheme.spacing.xl,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonSelected: {
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.text,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  spacer: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: FreeShowTheme.spacing.lg,
+  },
+});
+
+export default ButtonDeck;
@@ -0,0 +1,130 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowOutputLayer, FreeShowOutputLayers } from '../types';
+import FocusableTouchable from './FocusableTouchable';
+
+interface ClearLayersPanelProps {
+  layers: FreeShowOutputLayers | null;
+  disabled: boolean;
+  canRestore: boolean;
+  onClear: (layer: FreeShowOutputLayer) => void;
+  onRestore: () => void;
+}
+
+const LAYERS: {
+  layer: FreeShowOutputLayer;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { layer: 'background', label: 'Background', icon: 'image' },
+  { layer: 'slide', label: 'Slide', icon: 'document-text' },
+  { layer: 'overlays', label: 'Overlays', icon: 'layers' },
+  { layer: 'audio', label: 'Audio', icon: 'musical-notes' },
+  { layer: 'nextTimer', label: 'Timer', icon: 'timer' },
+];
+
+/**
+ * Clear buttons for each FreeShow output layer
+ * A dot marks layers that currently hold content, when FreeShow reports the layer state
+ */
+const ClearLayersPanel: React.FC<ClearLayersPanelProps> = ({
+  layers,
+  disabled,
+  canRestore,
+  onClear,
+  onRestore,
+}) => {
+  return (
+    <View style={styles.grid}>
+      {LAYERS.map(({ layer, label, icon }) => {
+        const isActive = layers?.[layer] ?? false;
+        const isEmpty = layers !== null && !isActive;
+        return (
+          <FocusableTouchable
+            key={layer}
+            style={[
+              styles.layerButton,
+              isActive && styles.layerButtonActive,
+              (disabled || isEmpty) && styles.layerButtonDisabled,
+            ]}
+            onPress={() => onClear(layer)}
+            disabled={disabled}
+          >
+            <Ionicons
+              name={icon}
+              size={20}
+              color={isActive ? FreeShowTheme.colors.text : FreeShowTheme.colors.textSecondary}
+            />
+            <Text style={[styles.layerLabel, isActive && styles.layerLabelActive]}>{label}</Text>
+            {isActive && <View style={styles.activeDot} />}
+          </FocusableTouchable>
+        );
+      })}
+
+      <FocusableTouchable
+        style={[
+          styles.layerButton,
+          styles.restoreButton,
+          (disabled || !canRestore) && styles.layerButtonDisabled,
+        ]}
+        onPress={onRestore}
+        disabled={disabled || !canRestore}
+      >
+        <Ionicons name="arrow-undo" size={20} color={FreeShowTheme.colors.secondary} />
+        <Text style={[styles.layerLabel, styles.restoreLabel]}>Restore</Text>
+      </FocusableTouchable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  layerButton: {
+    flexBasis: '31%',
+    flexGrow: 1,
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  layerButtonActive: {
+    borderColor: '#dc3545',
+  },
+  layerButtonDisabled: {
+    opacity: 0.5,
+  },
+  layerLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  layerLabelActive: {
+    color: FreeShowTheme.colors.text,
+    fontWeight: '600',
+  },
+  activeDot: {
+    position: 'absolute',
+    top: FreeShowTheme.spacing.sm,
+    right: FreeShowTheme.spacing.sm,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#dc3545',
+  },
+  restoreButton: {
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+  restoreLabel: {
+    color: FreeShowTheme.colors.secondary,
+  },
+});
+
+export default ClearLayersPanel;
@@ -0,0 +1,165 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useConnection } from '../contexts';
+import { FreeShowConnectionHealth } from '../services/interfaces/IFreeShowService';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+const HEALTH_COLORS: Record<Exclude<FreeShowConnectionHealth, 'connected'>, string> = {
+  degraded: '#B8860B',
+  reconnecting: '#C7511F',
+  offline: '#5A5A6E',
+};
+
+// index_select_slide -> Index select slide
+const describeAction = (action: string) => {
+  const words = action.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const describeTarget = (data: any): string | null => {
+  if (!data || typeof data !== 'object') return null;
+  if (typeof data.index === 'number') return `#${data.index + 1}`;
+  const value = data.value ?? data.reference ?? data.message ?? data.volume ?? data.seconds;
+  return value !== undefined && value !== null ? String(value) : null;
+};
+
+/**
+ * Banner shown while the link to FreeShow is unhealthy, so screens keep their content
+ * instead of falling back to the Connect screen, tap to retry straight away
+ * Lists the commands waiting to be replayed so they can be cancelled before the link is back
+ */
+const ConnectionHealthBanner: React.FC = () => {
+  const { state, actions } = useConnection();
+  const { isConnected, connectionHealth, reconnectAttempt, bufferedCommands, lastDroppedCommand } =
+    state;
+
+  if (!isConnected || connectionHealth === 'connected') return null;
+
+  const label =
+    connectionHealth === 'degraded'
+      ? 'FreeShow is slow to respond'
+      : connectionHealth === 'reconnecting'
+        ? `Reconnecting… attempt ${reconnectAttempt}`
+        : 'Connection lost, paused in background';
+
+  return (
+    <View style={{ backgroundColor: HEALTH_COLORS[connectionHealth] }}>
+      <TouchableOpacity
+        style={styles.banner}
+        onPress={() => actions.reconnect()}
+        disabled={connectionHealth === 'degraded'}
+        accessibilityRole="button"
+        accessibilityLabel={
+          connectionHealth === 'degraded' ? label : `${label}, tap to reconnect now`
+        }
+      >
+        {connectionHealth === 'reconnecting' ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <Ionicons
+            name={connectionHealth === 'degraded' ? 'cellular' : 'cloud-offline'}
+            size={18}
+            color="white"
+          />
+        )}
+        <Text style={styles.bannerText}>{label}</Text>
+        {connectionHealth !== 'degraded' && <Text style={styles.retryText}>Retry now</Text>}
+      </TouchableOpacity>
+
+      {lastDroppedCommand && (
+        <View style={styles.detailRow}>
+          <Ionicons name="warning" size={14} color="white" />
+          <Text style={styles.detailText} numberOfLines={1}>
+            {describeAction(lastDroppedCommand.action)} was not sent
+          </Text>
+        </View>
+      )}
+
+      {bufferedCommands.length > 0 && (
+        <View style={styles.buffer}>
+          <View style={styles.detailRow}>
+            <Text style={styles.bufferTitle}>
+              {bufferedCommands.length} command{bufferedCommands.length === 1 ? '' : 's'} will
+              be sent on reconnect
+            </Text>
+            <TouchableOpacity
+              onPress={actions.clearBufferedCommands}
+              accessibilityRole="button"
+              accessibilityLabel="Discard all waiting commands"
+            >
+              <Text style={styles.retryText}>Discard all</Text>
+            </TouchableOpacity>
+          </View>
+          {bufferedCommands.map(command => {
+            const target = describeTarget(command.data);
+            return (
+              <View key={command.id} style={styles.detailRow}>
+                <Ionicons name="time-outline" size={14} color="white" />
+                <Text style={styles.detailText} numberOfLines={1}>
+                  {describeAction(command.action)}
+                  {target ? ` · ${target}` : ''}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => actions.cancelBufferedCommand(command.id)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Cancel ${describeAction(command.action)}`}
+                >
+                  <Ionicons name="close-circle" size={18} color="white" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  retryText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '700',
+    color: 'white',
+  },
+  buffer: {
+    paddingBottom: FreeShowTheme.spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  bufferTitle: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: 'white',
+    letterSpacing: 0.5,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: 'white',
+  },
+});
+
+export default ConnectionHealthBanner;
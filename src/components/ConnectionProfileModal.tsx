@@ -0,0 +1,379 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { configService } from '../config/AppConfig';
+import { useConnectionProfile, useSettings } from '../contexts';
+import {
+  AppSettings,
+  ConnectionHistory,
+  ConnectionProfile,
+  KeepAwakeOverride,
+} from '../repositories';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface ProfileOption<T> {
+  value: T | undefined;
+  label: string;
+}
+
+const TOGGLE_OPTIONS: ProfileOption<boolean>[] = [
+  { value: undefined, label: 'Default' },
+  { value: true, label: 'On' },
+  { value: false, label: 'Off' },
+];
+
+const KEEP_AWAKE_OPTIONS: ProfileOption<KeepAwakeOverride>[] = [
+  { value: 'inherit', label: 'Default' },
+  { value: 'on', label: 'On' },
+  { value: 'off', label: 'Off' },
+];
+
+const ORIENTATION_OPTIONS: ProfileOption<ConnectionProfile['orientation']>[] = [
+  { value: undefined, label: 'Auto' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+
+const TIMEOUT_OPTIONS: ProfileOption<number>[] = [
+  { value: undefined, label: 'Default' },
+  { value: 5, label: '5 s' },
+  { value: 10, label: '10 s' },
+  { value: 20, label: '20 s' },
+  { value: 30, label: '30 s' },
+];
+
+const LAUNCH_OPTIONS: ProfileOption<AppSettings['autoLaunchInterface']>[] = [
+  { value: undefined, label: 'Default' },
+  { value: 'none', label: 'None' },
+  ...configService.getInterfaceConfigs().map(config => ({
+    value: config.id as AppSettings['autoLaunchInterface'],
+    label: config.title,
+  })),
+];
+
+interface OptionRowProps<T> {
+  label: string;
+  hint?: string;
+  options: ProfileOption<T>[];
+  value: T | undefined;
+  onChange: (value: T | undefined) => void;
+}
+
+function OptionRow<T>({ label, hint, options, value, onChange }: OptionRowProps<T>) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionLabel}>{label}</Text>
+      {hint && <Text style={styles.sectionHint}>{hint}</Text>}
+      <View style={styles.chips}>
+        {options.map(option => {
+          const selected = option.value === value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onChange(option.value)}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              accessibilityLabel={`${label}: ${option.label}`}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+interface ConnectionProfileModalProps {
+  connection: ConnectionHistory | null;
+  onClose: () => void;
+}
+
+/**
+ * Edits the per-host overrides of a saved connection, Default keeps following the app settings
+ */
+const ConnectionProfileModal: React.FC<ConnectionProfileModalProps> = ({ connection, onClose }) => {
+  const { settings } = useSettings();
+  const { actions } = useConnectionProfile();
+  const [draft, setDraft] = useState<ConnectionProfile>({});
+  const [draftHost, setDraftHost] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over only when another connection is opened, a deck reset refreshes the same one
+  const host = connection?.host ?? null;
+  if (host !== draftHost) {
+    setDraftHost(host);
+    setDraft(connection?.profile ?? {});
+  }
+
+  const update = <K extends keyof ConnectionProfile>(key: K, value: ConnectionProfile[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const describeDefault = (value: boolean | undefined) =>
+    value === undefined ? undefined : `Default is ${value ? 'on' : 'off'} in Settings`;
+
+  const handleSave = async () => {
+    if (!connection) return;
+    setIsSaving(true);
+    try {
+      await actions.updateProfile(connection.host, draft);
+      onClose();
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to save connection profile',
+        'ConnectionProfileModal',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetDeck = async () => {
+    if (!connection) return;
+    try {
+      await actions.resetDeck(connection.host);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to reset button deck',
+        'ConnectionProfileModal',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  };
+
+  const deckButtons = connection?.apiDeck?.buttons.length ?? 0;
+
+  return (
+    <Modal visible={!!connection} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Connection Profile</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {connection?.nickname || connection?.host}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <OptionRow
+              label="Auto-launch interface"
+              options={LAUNCH_OPTIONS}
+              value={draft.autoLaunchInterface}
+              onChange={value => update('autoLaunchInterface', value)}
+            />
+            <OptionRow
+              label="Open in fullscreen"
+              hint={describeDefault(settings?.autoLaunchFullscreen)}
+              options={TOGGLE_OPTIONS}
+              value={draft.autoLaunchFullscreen}
+              onChange={value => update('autoLaunchFullscreen', value)}
+            />
+            <OptionRow
+              label="Keep screen awake"
+              hint={describeDefault(settings?.keepAwake)}
+              options={KEEP_AWAKE_OPTIONS}
+              value={draft.keepAwake ?? 'inherit'}
+              onChange={value => update('keepAwake', value)}
+            />
+            <OptionRow
+              label="Screen orientation"
+              options={ORIENTATION_OPTIONS}
+              value={draft.orientation}
+              onChange={value => update('orientation', value)}
+            />
+            <OptionRow
+              label="Connection timeout"
+              hint={`Default is ${configService.getNetworkConfig().connectionTimeout / 1000} s`}
+              options={TIMEOUT_OPTIONS}
+              value={draft.connectionTimeout}
+              onChange={value => update('connectionTimeout', value)}
+            />
+
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Button deck</Text>
+              <View style={styles.deckRow}>
+                <Ionicons
+                  name="grid-outline"
+                  size={18}
+                  color={FreeShowTheme.colors.textSecondary}
+                />
+                <Text style={styles.deckText}>
+                  {connection?.apiDeck
+                    ? `Custom deck · ${deckButtons} button${deckButtons === 1 ? '' : 's'}`
+                    : 'Default deck'}
+                </Text>
+                {connection?.apiDeck && (
+                  <TouchableOpacity
+                    onPress={handleResetDeck}
+                    accessibilityRole="button"
+                    accessibilityLabel="Reset button deck to default"
+                  >
+                    <Text style={styles.resetText}>Reset</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: FreeShowTheme.spacing.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '85%',
+    padding: FreeShowTheme.spacing.lg,
+    gap: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.xl,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  subtitle: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  body: {
+    gap: FreeShowTheme.spacing.lg,
+  },
+  section: {
+    gap: FreeShowTheme.spacing.xs,
+  },
+  sectionLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  sectionHint: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.sm,
+    marginTop: FreeShowTheme.spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  chipSelected: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  chipText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: FreeShowTheme.colors.text,
+    fontWeight: '600',
+  },
+  deckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  deckText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.text,
+  },
+  resetText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.secondary,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  button: {
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  saveButton: {
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  cancelText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    fontWeight: '500',
+  },
+  saveText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+    fontWeight: '600',
+  },
+});
+
+export default ConnectionProfileModal;
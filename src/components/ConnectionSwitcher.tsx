@@ -0,0 +1,249 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { ConnectionSessionSummary, useConnectionActions, useConnectionSessions } from '../contexts';
+import { FreeShowConnectionHealth } from '../services/interfaces/IFreeShowService';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import FocusableTouchable from './FocusableTouchable';
+
+const STATUS_COLORS: Record<FreeShowConnectionHealth, string> = {
+  connected: FreeShowTheme.colors.connected,
+  degraded: '#FFB300',
+  reconnecting: '#FF8A3D',
+  offline: FreeShowTheme.colors.textSecondary,
+};
+
+const describeStatus = (session: ConnectionSessionSummary) => {
+  if (!session.isConnected) return session.host ? 'Not connected' : 'Empty slot';
+  if (session.health === 'reconnecting') return 'Reconnecting…';
+  if (session.health === 'degraded') return 'Slow to respond';
+  return 'Connected';
+};
+
+interface ConnectionSwitcherProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after a new empty slot became active, so the caller can open the Connect screen
+  onAddConnection: () => void;
+}
+
+/**
+ * Lists every held FreeShow connection, switches the active one and links machines
+ * Linked machines repeat slide navigation and clear commands sent to the active one
+ */
+const ConnectionSwitcher: React.FC<ConnectionSwitcherProps> = ({
+  visible,
+  onClose,
+  onAddConnection,
+}) => {
+  const sessions = useConnectionSessions();
+  const { switchConnection, addConnection, removeConnection, setConnectionLinked } =
+    useConnectionActions();
+
+  const handleSelect = (id: string) => {
+    switchConnection(id);
+    onClose();
+  };
+
+  const handleAdd = () => {
+    addConnection();
+    onClose();
+    onAddConnection();
+  };
+
+  const linkedCount = sessions.filter(session => session.linked).length;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Connections</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {sessions.map(session => (
+              <View key={session.id} style={[styles.row, session.isActive && styles.rowActive]}>
+                <FocusableTouchable
+                  style={styles.rowMain}
+                  onPress={() => handleSelect(session.id)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Switch to ${session.name || session.host || 'empty connection'}`}
+                >
+                  <View
+                    style={[
+                      styles.statusDot,
+                      {
+                        backgroundColor: session.isConnected
+                          ? STATUS_COLORS[session.health]
+                          : STATUS_COLORS.offline,
+                      },
+                    ]}
+                  />
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowName} numberOfLines={1}>
+                      {session.name || session.host || 'New connection'}
+                    </Text>
+                    <Text style={styles.rowStatus} numberOfLines={1}>
+                      {session.isActive ? 'Active · ' : ''}
+                      {describeStatus(session)}
+                    </Text>
+                  </View>
+                </FocusableTouchable>
+
+                <View style={styles.linkToggle}>
+                  <Ionicons
+                    name="link"
+                    size={16}
+                    color={
+                      session.linked
+                        ? FreeShowTheme.colors.secondary
+                        : FreeShowTheme.colors.textSecondary
+                    }
+                  />
+                  <Switch
+                    value={session.linked}
+                    onValueChange={linked => setConnectionLinked(session.id, linked)}
+                    trackColor={{
+                      false: FreeShowTheme.colors.primaryLighter,
+                      true: FreeShowTheme.colors.secondary,
+                    }}
+                    accessibilityLabel={`Link ${session.name || session.host || 'connection'}`}
+                  />
+                </View>
+
+                {sessions.length > 1 && (
+                  <TouchableOpacity
+                    onPress={() => removeConnection(session.id)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Remove ${session.name || session.host || 'connection'}`}
+                  >
+                    <Ionicons name="trash-outline" size={18} color="#EF5350" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.hint}>
+            {linkedCount > 1
+              ? 'Slide navigation and clear commands sent to a linked machine are repeated on the other linked machines.'
+              : 'Link two or more machines to mirror slide navigation and clear commands between them.'}
+          </Text>
+
+          <FocusableTouchable style={styles.addButton} onPress={handleAdd}>
+            <Ionicons name="add" size={20} color={FreeShowTheme.colors.text} />
+            <Text style={styles.addButtonText}>Add Connection</Text>
+          </FocusableTouchable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: FreeShowTheme.spacing.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '80%',
+    padding: FreeShowTheme.spacing.lg,
+    gap: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.xl,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  list: {
+    gap: FreeShowTheme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    paddingRight: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  rowActive: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  rowStatus: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  linkToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+  },
+  hint: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  addButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+});
+
+export default ConnectionSwitcher;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import {
+  StyleProp,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableOpacityProps,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface FocusableTouchableProps extends TouchableOpacityProps {
+  focusedStyle?: StyleProp<ViewStyle>;
+}
+
+/**
+ * TouchableOpacity that shows a focus ring while a TV remote or keyboard has focus on it
+ * Touch input never focuses, so this looks the same as a plain TouchableOpacity on phones
+ */
+const FocusableTouchable: React.FC<FocusableTouchableProps> = ({
+  style,
+  focusedStyle,
+  onFocus,
+  onBlur,
+  children,
+  ...props
+}) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const borderRadius = StyleSheet.flatten(style)?.borderRadius ?? FreeShowTheme.borderRadius.md;
+
+  return (
+    <TouchableOpacity
+      {...props}
+      style={[style, isFocused && styles.focused, isFocused && focusedStyle]}
+      onFocus={event => {
+        setIsFocused(true);
+        onFocus?.(event);
+      }}
+      onBlur={event => {
+        setIsFocused(false);
+        onBlur?.(event);
+      }}
+    >
+      {children}
+      {isFocused && <View style={[styles.focusRing, { borderRadius }]} pointerEvents="none" />}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  focused: {
+    transform: [{ scale: 1.03 }],
+    shadowColor: FreeShowTheme.colors.secondary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.35,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  focusRing: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+});
+
+export default FocusableTouchable;
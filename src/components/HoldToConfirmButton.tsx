@@ -0,0 +1,123 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useRef } from 'react';
+import {
+  Animated,
+  Easing,
+  Pressable,
+  StyleProp,
+  StyleSheet,
+  Text,
+  Vibration,
+  ViewStyle,
+} from 'react-native';
+import { configService } from '../config/AppConfig';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface HoldToConfirmButtonProps {
+  label?: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  onConfirm: () => void;
+  disabled?: boolean;
+  holdDuration?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Button that only fires after being held down, so an accidental tap can't trigger it
+ * A fill sweeps across the button while it is held
+ */
+const HoldToConfirmButton: React.FC<HoldToConfirmButtonProps> = ({
+  label,
+  icon,
+  color,
+  onConfirm,
+  disabled = false,
+  holdDuration = configService.getNetworkConfig().holdToConfirmDuration,
+  style,
+}) => {
+  const progress = useRef(new Animated.Value(0)).current;
+  const animationRef = useRef<Animated.CompositeAnimation | null>(null);
+
+  useEffect(() => () => animationRef.current?.stop(), []);
+
+  const handlePressIn = () => {
+    animationRef.current = Animated.timing(progress, {
+      toValue: 1,
+      duration: holdDuration,
+      easing: Easing.linear,
+      useNativeDriver: false,
+    });
+    animationRef.current.start(({ finished }) => {
+      if (!finished) return;
+      Vibration.vibrate(50);
+      progress.setValue(0);
+      onConfirm();
+    });
+  };
+
+  const handlePressOut = () => {
+    animationRef.current?.stop();
+    Animated.timing(progress, {
+      toValue: 0,
+      duration: 150,
+      useNativeDriver: false,
+    }).start();
+  };
+
+  return (
+    <Pressable
+      style={[styles.button, { borderColor: color }, disabled && styles.buttonDisabled, style]}
+      onPressIn={handlePressIn}
+      onPressOut={handlePressOut}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityHint="Press and hold to confirm"
+    >
+      <Animated.View
+        style={[
+          styles.fill,
+          {
+            backgroundColor: color,
+            width: progress.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] }),
+          },
+        ]}
+      />
+      <Ionicons name={icon} size={label ? 22 : 26} color={FreeShowTheme.colors.text} />
+      {label ? <Text style={styles.label}>{label}</Text> : null}
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.lg,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 2,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  fill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    opacity: 0.6,
+  },
+  label: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+});
+
+export default HoldToConfirmButton;
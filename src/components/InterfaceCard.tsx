@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, Pressable, StyleSheet, Platform } from 'react-native';
 import { BlurView } from 'expo-blur';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
 import { ShowOption } from '../types';
 
 interface InterfaceCardProps {
@@ -10,6 +11,7 @@ interface InterfaceCardProps {
   onPress: () => void;
   onLongPress: () => void;
   size?: 'default' | 'large' | 'xlarge';
+  hasTVPreferredFocus?: boolean;
 }
 
 /**
@@ -20,7 +22,10 @@ const InterfaceCard: React.FC<InterfaceCardProps> = ({
   onPress,
   onLongPress,
   size = 'default',
+  hasTVPreferredFocus = false,
 }) => {
+  // Only set by TV remote or keyboard focus, touch never focuses the card
+  const [isFocused, setIsFocused] = useState(false);
   const isDisabled = !show.port || show.port === 0;
 
   const isLarge = size === 'large';
@@ -71,11 +76,15 @@ const InterfaceCard: React.FC<InterfaceCardProps> = ({
       style={({ pressed }) => [
         styles.interfaceCard,
         pressed && styles.interfaceCardPressed,
+        isFocused && styles.interfaceCardFocused,
         isDisabled && styles.disabledCard
       ]}
       onPress={onPress}
       onLongPress={onLongPress}
       delayLongPress={300}
+      hasTVPreferredFocus={hasTVPreferredFocus}
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => setIsFocused(false)}
     >
       <LinearGradient
         colors={[
@@ -94,6 +103,7 @@ const InterfaceCard: React.FC<InterfaceCardProps> = ({
           </View>
         )}
       </LinearGradient>
+      {isFocused && <View style={styles.focusRing} pointerEvents="none" />}
     </Pressable>
   );
 };
@@ -107,6 +117,15 @@ const styles = StyleSheet.create({
   interfaceCardPressed: {
     transform: [{ scale: 0.98 }],
   },
+  interfaceCardFocused: {
+    transform: [{ scale: 1.03 }],
+  },
+  focusRing: {
+    ...StyleSheet.absoluteFillObject,
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.secondary,
+    borderRadius: 12,
+  },
   disabledCard: {
     opacity: 0.6,
   },
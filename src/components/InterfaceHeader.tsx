@@ -1,24 +1,36 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, Pressable, StyleSheet, Dimensions, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowConnectionHealth, IFreeShowLinkStats } from '../services/interfaces/IFreeShowService';
+import SignalStrengthIndicator from './SignalStrengthIndicator';
 
 interface InterfaceHeaderProps {
   connectionName: string | null;
   connectionHost: string | null;
+  connectionHealth?: FreeShowConnectionHealth;
+  linkStats?: IFreeShowLinkStats | null;
+  // Number of FreeShow machines held at once, the name opens the switcher when this is set
+  connectionCount?: number;
+  onSwitchConnection?: () => void;
   onDisconnect: () => void;
 }
 
 /**
  * Header component for the interface screen
- * Displays connection status and disconnect button
+ * Displays connection status, link quality and disconnect button
  */
 const InterfaceHeader: React.FC<InterfaceHeaderProps> = ({
   connectionName,
   connectionHost,
+  connectionHealth = 'connected',
+  linkStats = null,
+  connectionCount = 1,
+  onSwitchConnection,
   onDisconnect,
 }) => {
+  const [isDisconnectFocused, setIsDisconnectFocused] = useState(false);
   const screenWidth = Dimensions.get('window').width;
   const isTablet = screenWidth >= 768;
 
@@ -71,19 +83,46 @@ const InterfaceHeader: React.FC<InterfaceHeaderProps> = ({
               <Text style={[styles.statusLabel, isTablet && styles.statusLabelTablet]}>
                 CONNECTED
               </Text>
+              <View style={styles.signal}>
+                <SignalStrengthIndicator stats={linkStats} health={connectionHealth} />
+              </View>
             </View>
-            <Text style={[styles.connectionName, isTablet && styles.connectionNameTablet]}>
-              {connectionName || connectionHost || 'Connected'}
-            </Text>
+            <Pressable
+              style={styles.connectionNameRow}
+              onPress={onSwitchConnection}
+              disabled={!onSwitchConnection}
+              accessibilityRole="button"
+              accessibilityLabel="Switch connection"
+            >
+              <Text
+                style={[styles.connectionName, isTablet && styles.connectionNameTablet]}
+                numberOfLines={1}
+              >
+                {connectionName || connectionHost || 'Connected'}
+              </Text>
+              {onSwitchConnection && (
+                <>
+                  {connectionCount > 1 && (
+                    <View style={styles.connectionCount}>
+                      <Text style={styles.connectionCountText}>{connectionCount}</Text>
+                    </View>
+                  )}
+                  <Ionicons name="chevron-down" size={16} color="rgba(255, 255, 255, 0.6)" />
+                </>
+              )}
+            </Pressable>
           </View>
 
           {/* Disconnect Button */}
           <Pressable
             style={({ pressed }) => [
               styles.actionButton,
-              pressed && styles.actionButtonPressed
+              pressed && styles.actionButtonPressed,
+              isDisconnectFocused && styles.actionButtonFocused
             ]}
             onPress={onDisconnect}
+            onFocus={() => setIsDisconnectFocused(true)}
+            onBlur={() => setIsDisconnectFocused(false)}
           >
             <LinearGradient
               colors={['rgba(239, 83, 80, 0.2)', 'rgba(239, 83, 80, 0.1)']}
@@ -161,6 +200,10 @@ const styles = StyleSheet.create({
   actionButtonPressed: {
     opacity: 0.7,
   },
+  actionButtonFocused: {
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.secondary,
+  },
   actionButtonGradient: {
     width: 44,
     height: 44,
@@ -203,6 +246,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  signal: {
+    marginLeft: 'auto',
+  },
   statusDot: {
     width: 6,
     height: 6,
@@ -219,11 +265,31 @@ const styles = StyleSheet.create({
     fontSize: 13,
   },
   connectionName: {
+    flexShrink: 1,
     fontSize: 17,
     color: 'white',
     fontWeight: '600',
     letterSpacing: -0.2,
   },
+  connectionNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  connectionCount: {
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 5,
+    borderRadius: 9,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  connectionCountText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: 'white',
+  },
   connectionNameTablet: {
     fontSize: 20,
   },
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { LayoutChangeEvent, PanResponder, StyleSheet, View } from 'react-native';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+const THUMB_SIZE = 22;
+
+interface LevelSliderProps {
+  value: number;
+  maximumValue: number;
+  onValueChange?: (value: number) => void;
+  onSlidingComplete: (value: number) => void;
+  disabled?: boolean;
+  color?: string;
+}
+
+/**
+ * Horizontal slider built on PanResponder
+ * Tap anywhere on the track to jump there, or drag the thumb
+ */
+const LevelSlider: React.FC<LevelSliderProps> = ({
+  value,
+  maximumValue,
+  onValueChange,
+  onSlidingComplete,
+  disabled = false,
+  color = FreeShowTheme.colors.secondary,
+}) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [dragValue, setDragValue] = useState<number | null>(null);
+  // PanResponder is created once, so it reads the latest props through a ref
+  const latest = useRef({ trackWidth, maximumValue, onValueChange, onSlidingComplete, disabled });
+  latest.current = { trackWidth, maximumValue, onValueChange, onSlidingComplete, disabled };
+
+  const valueAt = (x: number) => {
+    const { trackWidth: width, maximumValue: max } = latest.current;
+    if (width <= 0) return 0;
+    return Math.max(0, Math.min(max, (x / width) * max));
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !latest.current.disabled,
+      onMoveShouldSetPanResponder: () => !latest.current.disabled,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        const next = valueAt(event.nativeEvent.locationX);
+        setDragValue(next);
+        latest.current.onValueChange?.(next);
+      },
+      onPanResponderMove: event => {
+        const next = valueAt(event.nativeEvent.locationX);
+        setDragValue(next);
+        latest.current.onValueChange?.(next);
+      },
+      onPanResponderRelease: event => {
+        const next = valueAt(event.nativeEvent.locationX);
+        setDragValue(null);
+        latest.current.onSlidingComplete(next);
+      },
+      onPanResponderTerminate: () => setDragValue(null),
+    })
+  ).current;
+
+  const shown = dragValue ?? value;
+  const fraction = maximumValue > 0 ? Math.max(0, Math.min(1, shown / maximumValue)) : 0;
+
+  return (
+    <View
+      style={[styles.container, disabled && styles.disabled]}
+      onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+      {...panResponder.panHandlers}
+    >
+      <View style={styles.track} pointerEvents="none">
+        <View style={[styles.fill, { width: `${fraction * 100}%`, backgroundColor: color }]} />
+      </View>
+      <View
+        pointerEvents="none"
+        style={[styles.thumb, { left: fraction * trackWidth - THUMB_SIZE / 2, borderColor: color }]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: 36,
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 3,
+    backgroundColor: FreeShowTheme.colors.text,
+  },
+});
+
+export default LevelSlider;
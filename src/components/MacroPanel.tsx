@@ -0,0 +1,169 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { MacroProgress } from '../hooks/useMacroRunner';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { APIMacro } from '../types';
+import { getDeckIcon } from './ButtonDeck';
+import FocusableTouchable from './FocusableTouchable';
+
+interface MacroPanelProps {
+  macros: APIMacro[];
+  progress: MacroProgress | null;
+  disabled: boolean;
+  onRun: (macro: APIMacro) => void;
+  onAbort: () => void;
+}
+
+/**
+ * One button per macro, replaced by a progress bar with abort while a macro runs
+ */
+const MacroPanel: React.FC<MacroPanelProps> = ({ macros, progress, disabled, onRun, onAbort }) => {
+  if (progress) {
+    const fraction = progress.totalSteps > 0 ? progress.completedSteps / progress.totalSteps : 0;
+    return (
+      <View style={styles.progressCard}>
+        <View style={styles.progressHeader}>
+          <View style={styles.progressInfo}>
+            <Text style={styles.progressName} numberOfLines={1}>
+              {progress.macroName}
+            </Text>
+            <Text style={styles.progressStatus} numberOfLines={1}>
+              Step {Math.min(progress.completedSteps + 1, progress.totalSteps)} of{' '}
+              {progress.totalSteps} · {progress.status}
+            </Text>
+          </View>
+          <FocusableTouchable style={styles.abortButton} onPress={onAbort}>
+            <Ionicons name="stop" size={16} color="white" />
+            <Text style={styles.abortButtonText}>Abort</Text>
+          </FocusableTouchable>
+        </View>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${fraction * 100}%` }]} />
+        </View>
+      </View>
+    );
+  }
+
+  if (macros.length === 0) {
+    return <Text style={styles.emptyText}>No macros yet. Tap the pencil to create one.</Text>;
+  }
+
+  return (
+    <View style={styles.grid}>
+      {macros.map(macro => (
+        <FocusableTouchable
+          key={macro.id}
+          style={[
+            styles.macroButton,
+            { borderLeftColor: macro.color },
+            (disabled || macro.steps.length === 0) && styles.macroButtonDisabled,
+          ]}
+          onPress={() => onRun(macro)}
+          disabled={disabled || macro.steps.length === 0}
+        >
+          <Ionicons name={getDeckIcon(macro.icon)} size={20} color={macro.color} />
+          <View style={styles.macroInfo}>
+            <Text style={styles.macroName} numberOfLines={1}>
+              {macro.name}
+            </Text>
+            <Text style={styles.macroSteps}>
+              {macro.steps.length} {macro.steps.length === 1 ? 'step' : 'steps'}
+            </Text>
+          </View>
+        </FocusableTouchable>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.md,
+  },
+  macroButton: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    borderLeftWidth: 4,
+  },
+  macroButtonDisabled: {
+    opacity: 0.5,
+  },
+  macroInfo: {
+    flex: 1,
+  },
+  macroName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  macroSteps: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  progressCard: {
+    padding: FreeShowTheme.spacing.lg,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.secondary,
+    gap: FreeShowTheme.spacing.md,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  progressInfo: {
+    flex: 1,
+  },
+  progressName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  progressStatus: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  abortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: '#dc3545',
+  },
+  abortButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+});
+
+export default MacroPanel;
@@ -8,6 +8,8 @@ import { getBottomPadding } from '../utils/navigationUtils';
 
 interface NotConnectedScreenProps {
   onNavigateToConnect: () => void;
+  // Shown when other FreeShow connections are held, to get back to one of them
+  onSwitchConnection?: () => void;
   isFloatingNav?: boolean;
 }
 
@@ -15,7 +17,10 @@ interface NotConnectedScreenProps {
  * Not Connected Screen Component
  * Shows when the app is not connected to FreeShow with option to connect
  */
-const NotConnectedScreen: React.FC<NotConnectedScreenProps> = ({ onNavigateToConnect }) => {
+const NotConnectedScreen: React.FC<NotConnectedScreenProps> = ({
+  onNavigateToConnect,
+  onSwitchConnection,
+}) => {
   const insets = useSafeAreaInsets();
 
   return (
@@ -52,6 +57,18 @@ const NotConnectedScreen: React.FC<NotConnectedScreenProps> = ({ onNavigateToCon
           <Text style={styles.connectButtonText}>Connect to FreeShow</Text>
           <Ionicons name="arrow-forward" size={18} color="white" style={styles.connectButtonIcon} />
         </Pressable>
+
+        {onSwitchConnection && (
+          <Pressable
+            style={({ pressed }) => [styles.switchButton, pressed && styles.connectButtonPressed]}
+            onPress={onSwitchConnection}
+            accessibilityRole="button"
+            accessibilityLabel="Switch to another connection"
+          >
+            <Ionicons name="swap-horizontal" size={18} color={FreeShowTheme.colors.textSecondary} />
+            <Text style={styles.switchButtonText}>Switch Connection</Text>
+          </Pressable>
+        )}
       </Animated.View>
     </LinearGradient>
   );
@@ -122,6 +139,19 @@ const styles = StyleSheet.create({
   connectButtonIcon: {
     marginLeft: 8,
   },
+  switchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  switchButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.textSecondary,
+  },
 });
 
 export default NotConnectedScreen;
@@ -0,0 +1,159 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { LiveOutputState } from '../hooks/useLiveOutput';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface NowShowingPanelProps {
+  live: LiveOutputState;
+}
+
+/**
+ * Panel showing what FreeShow currently has on its output
+ * Displays the show, layout, slide position, slide text and the next slide
+ */
+const NowShowingPanel: React.FC<NowShowingPanelProps> = ({ live }) => {
+  const { show, layoutName, slideIndex, slideCount, slideText, nextSlideText, isLoading } = live;
+
+  if (!show) {
+    return (
+      <View style={styles.panel}>
+        <View style={styles.emptyRow}>
+          {isLoading ? (
+            <ActivityIndicator size="small" color={FreeShowTheme.colors.secondary} />
+          ) : (
+            <Ionicons name="tv-outline" size={20} color={FreeShowTheme.colors.textSecondary} />
+          )}
+          <Text style={styles.emptyText}>
+            {isLoading ? 'Loading output…' : 'Nothing is showing'}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.headerRow}>
+        <View style={styles.liveBadge}>
+          <View style={styles.liveDot} />
+          <Text style={styles.liveText}>LIVE</Text>
+        </View>
+        <View style={styles.showInfo}>
+          <Text style={styles.showName} numberOfLines={1}>
+            {show.name}
+          </Text>
+          {layoutName && (
+            <Text style={styles.layoutName} numberOfLines={1}>
+              {layoutName}
+            </Text>
+          )}
+        </View>
+        {slideIndex !== null && slideCount > 0 && (
+          <Text style={styles.slidePosition}>
+            {slideIndex + 1} / {slideCount}
+          </Text>
+        )}
+      </View>
+
+      <Text style={styles.slideText} numberOfLines={6}>
+        {slideText || '(no text on this slide)'}
+      </Text>
+
+      {nextSlideText.length > 0 && (
+        <View style={styles.nextSlide}>
+          <Text style={styles.nextLabel}>NEXT</Text>
+          <Text style={styles.nextText} numberOfLines={2}>
+            {nextSlideText}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    padding: FreeShowTheme.spacing.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    gap: FreeShowTheme.spacing.md,
+  },
+  emptyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  liveBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  liveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  liveText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.secondary,
+    letterSpacing: 0.8,
+  },
+  showInfo: {
+    flex: 1,
+  },
+  showName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  layoutName: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  slidePosition: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  slideText: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    color: FreeShowTheme.colors.text,
+    lineHeight: 26,
+  },
+  nextSlide: {
+    borderTopWidth: 1,
+    borderTopColor: FreeShowTheme.colors.primaryLighter,
+    paddingTop: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  nextLabel: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.textSecondary,
+    letterSpacing: 0.8,
+  },
+  nextText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+});
+
+export default NowShowingPanel;
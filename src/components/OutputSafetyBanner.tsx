@@ -0,0 +1,78 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { OutputSafetyMode, useOutputSafety } from '../contexts';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { OUTPUT_SAFETY_COLORS } from './OutputSafetyControls';
+
+const MODE_LABELS: Record<OutputSafetyMode, string> = {
+  blackout: 'BLACKOUT ACTIVE',
+  freeze: 'OUTPUTS FROZEN',
+};
+
+interface OutputSafetyBannerProps {
+  onError?: (message: string) => void;
+}
+
+/**
+ * Persistent banner shown while outputs are blacked out or frozen, tap once to restore
+ */
+const OutputSafetyBanner: React.FC<OutputSafetyBannerProps> = ({ onError }) => {
+  const { state, actions } = useOutputSafety();
+
+  if (!state.mode) return null;
+
+  const handleRestore = () => {
+    actions.restore().catch(error => {
+      ErrorLogger.warn('Could not restore outputs', 'OutputSafetyBanner', error);
+      onError?.(error instanceof Error ? error.message : 'Failed to restore outputs');
+    });
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.banner, { backgroundColor: OUTPUT_SAFETY_COLORS[state.mode] }]}
+      onPress={handleRestore}
+      disabled={state.isBusy}
+      accessibilityRole="button"
+      accessibilityLabel={`${MODE_LABELS[state.mode]}, tap to restore`}
+    >
+      <Ionicons name="warning" size={20} color="white" />
+      <Text style={styles.bannerText}>{MODE_LABELS[state.mode]}</Text>
+      <View style={styles.restorePill}>
+        <Text style={styles.restoreText}>{state.isBusy ? 'Restoring…' : 'Tap to restore'}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '700',
+    color: 'white',
+    letterSpacing: 0.8,
+  },
+  restorePill: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  restoreText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default OutputSafetyBanner;
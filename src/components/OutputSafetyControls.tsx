@@ -0,0 +1,82 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { OutputSafetyMode, useOutputSafety } from '../contexts';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import HoldToConfirmButton from './HoldToConfirmButton';
+
+export const OUTPUT_SAFETY_COLORS: Record<OutputSafetyMode, string> = {
+  blackout: '#dc3545',
+  freeze: '#17a2b8',
+};
+
+interface OutputSafetyControlsProps {
+  disabled?: boolean;
+  compact?: boolean;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Hold-to-confirm blackout and freeze buttons for all outputs
+ * The compact variant is a pair of round buttons for floating over other content
+ */
+const OutputSafetyControls: React.FC<OutputSafetyControlsProps> = ({
+  disabled = false,
+  compact = false,
+  onError,
+}) => {
+  const { state, actions } = useOutputSafety();
+
+  const handleEngage = (mode: OutputSafetyMode) => {
+    actions.engage(mode).catch(error => {
+      ErrorLogger.warn(`Could not engage ${mode}`, 'OutputSafetyControls', error);
+      onError?.(error instanceof Error ? error.message : `Failed to engage ${mode}`);
+    });
+  };
+
+  const isDisabled = disabled || state.isBusy || !!state.mode;
+
+  return (
+    <View style={[styles.row, compact && styles.column]}>
+      <HoldToConfirmButton
+        label={compact ? undefined : 'Hold for Blackout'}
+        icon="moon"
+        color={OUTPUT_SAFETY_COLORS.blackout}
+        disabled={isDisabled}
+        onConfirm={() => handleEngage('blackout')}
+        style={compact ? styles.compactButton : styles.button}
+      />
+      <HoldToConfirmButton
+        label={compact ? undefined : 'Hold to Freeze'}
+        icon="snow"
+        color={OUTPUT_SAFETY_COLORS.freeze}
+        disabled={isDisabled}
+        onConfirm={() => handleEngage('freeze')}
+        style={compact ? styles.compactButton : styles.button}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+  },
+  column: {
+    flexDirection: 'column',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  button: {
+    flex: 1,
+  },
+  compactButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    paddingVertical: 0,
+    paddingHorizontal: 0,
+  },
+});
+
+export default OutputSafetyControls;
@@ -16,7 +16,7 @@ import { FreeShowTheme } from '../theme/FreeShowTheme';
 import { useConnection } from '../contexts';
 import { configService } from '../config/AppConfig';
 import { useIsTV } from '../hooks/useIsTV';
-import { useTVEvent } from '../hooks/useTVEvent';
+import { normalizeTVEvent, useTVEvent } from '../hooks/useTVEvent';
 
 interface SidebarProps {
   navigation: any;
@@ -59,39 +59,6 @@ const NAVIGATION_ITEMS: NavigationItem[] = [
   },
 ];
 
-// Normalize various TV event shapes to a canonical string action
-const normalizeTVEvent = (evt: any): string | null => {
-  if (!evt) return null;
-  if (evt.eventType && typeof evt.eventType === 'string') return evt.eventType;
-  if (evt.type && typeof evt.type === 'string') return evt.type;
-
-  const code = evt.eventType ?? evt.keyCode ?? evt.keycode ?? evt;
-  const num = typeof code === 'number' ? code : parseInt(code, 10);
-  if (!isNaN(num)) {
-    switch (num) {
-      case 19:
-        return 'up';
-      case 20:
-        return 'down';
-      case 21:
-        return 'left';
-      case 22:
-        return 'right';
-      case 23:
-        return 'select';
-      case 66:
-        return 'select';
-      case 4:
-        return 'back';
-      case 82:
-        return 'menu';
-      default:
-        return String(num);
-    }
-  }
-  return null;
-};
-
 const { width: screenWidth } = Dimensions.get('window');
 const SIDEBAR_WIDTH = Math.min(280, screenWidth * 0.75);
 
@@ -0,0 +1,108 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  FreeShowConnectionHealth,
+  IFreeShowLinkStats,
+} from '../services/interfaces/IFreeShowService';
+
+const BAR_COUNT = 4;
+
+// Worst-case round trip (average plus jitter) that still earns each number of bars
+const LEVEL_THRESHOLDS_MS = [60, 150, 400];
+
+const LEVEL_COLORS = ['#EF5350', '#EF5350', '#FFB300', '#4CAF50', '#4CAF50'];
+
+/**
+ * Number of bars to light for the measured link, null while there is nothing to go on yet
+ */
+export const getSignalLevel = (
+  stats: IFreeShowLinkStats | null,
+  health: FreeShowConnectionHealth
+): number | null => {
+  if (health === 'reconnecting' || health === 'offline') return 0;
+  if (stats?.stale) return 0;
+  if (!stats || stats.averageRtt === null) return null;
+
+  const worstCase = stats.averageRtt + (stats.jitter ?? 0);
+  const level = BAR_COUNT - LEVEL_THRESHOLDS_MS.filter(limit => worstCase > limit).length;
+  // Timeouts on a fast link still mean trouble
+  return health === 'degraded' ? Math.min(level, 1) : level;
+};
+
+interface SignalStrengthIndicatorProps {
+  stats: IFreeShowLinkStats | null;
+  health: FreeShowConnectionHealth;
+  showLatency?: boolean;
+}
+
+/**
+ * Signal bars for the link to FreeShow, with the average round trip next to them
+ */
+const SignalStrengthIndicator: React.FC<SignalStrengthIndicatorProps> = ({
+  stats,
+  health,
+  showLatency = true,
+}) => {
+  const level = getSignalLevel(stats, health);
+  const color = level === null ? 'rgba(255, 255, 255, 0.6)' : LEVEL_COLORS[level];
+
+  const latencyLabel =
+    level === 0
+      ? stats?.stale
+        ? 'No reply'
+        : 'Offline'
+      : stats?.averageRtt != null
+        ? `${stats.averageRtt} ms`
+        : '– ms';
+
+  const accessibilityLabel =
+    level === null
+      ? 'Signal strength not measured yet'
+      : `Signal strength ${level} of ${BAR_COUNT}, ${latencyLabel}${
+          stats?.jitter != null && level > 0 ? `, jitter ${stats.jitter} ms` : ''
+        }`;
+
+  return (
+    <View style={styles.container} accessible accessibilityLabel={accessibilityLabel}>
+      <View style={styles.bars}>
+        {Array.from({ length: BAR_COUNT }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              { height: 4 + index * 3 },
+              level !== null && index < level && { backgroundColor: color },
+            ]}
+          />
+        ))}
+      </View>
+      {showLatency && <Text style={[styles.latency, { color }]}>{latencyLabel}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    height: 13,
+  },
+  bar: {
+    width: 3,
+    borderRadius: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  latency: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+});
+
+export default SignalStrengthIndicator;
@@ -0,0 +1,150 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet, Text, View } from 'react-native';
+import { LiveOutputState } from '../hooks/useLiveOutput';
+import { useOutputThumbnail } from '../hooks/useThumbnails';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import SlideThumbnail from './SlideThumbnail';
+
+interface SlidePreviewPanelProps {
+  live: LiveOutputState;
+  enabled: boolean;
+}
+
+/**
+ * Live capture of the main output with previews of the current and next slide
+ */
+const SlidePreviewPanel: React.FC<SlidePreviewPanelProps> = ({ live, enabled }) => {
+  const outputUri = useOutputThumbnail(enabled);
+  const { output, slideIndex, slideCount } = live;
+  const nextIndex = slideIndex !== null && slideIndex + 1 < slideCount ? slideIndex + 1 : null;
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.outputFrame}>
+        {outputUri ? (
+          <Image source={{ uri: outputUri }} style={styles.outputImage} resizeMode="contain" />
+        ) : (
+          <View style={styles.emptyOutput}>
+            <Ionicons name="tv-outline" size={28} color={FreeShowTheme.colors.textSecondary} />
+            <Text style={styles.emptyText}>No output capture</Text>
+          </View>
+        )}
+        <View style={styles.outputBadge}>
+          <View style={styles.liveDot} />
+          <Text style={styles.badgeText}>OUTPUT</Text>
+        </View>
+      </View>
+
+      {output?.showId && slideIndex !== null && (
+        <View style={styles.slideRow}>
+          <View style={styles.slideColumn}>
+            <Text style={styles.slideLabel}>CURRENT · {slideIndex + 1}</Text>
+            <SlideThumbnail
+              showId={output.showId}
+              index={slideIndex}
+              layoutId={output.layoutId}
+              style={styles.currentSlide}
+            />
+          </View>
+          <View style={styles.slideColumn}>
+            <Text style={styles.slideLabel}>
+              {nextIndex !== null ? `NEXT · ${nextIndex + 1}` : 'NEXT'}
+            </Text>
+            {nextIndex !== null ? (
+              <SlideThumbnail showId={output.showId} index={nextIndex} layoutId={output.layoutId} />
+            ) : (
+              <View style={styles.endOfShow}>
+                <Text style={styles.emptyText}>End of show</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    padding: FreeShowTheme.spacing.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    gap: FreeShowTheme.spacing.md,
+  },
+  outputFrame: {
+    aspectRatio: 16 / 9,
+    backgroundColor: 'black',
+    borderRadius: FreeShowTheme.borderRadius.md,
+    overflow: 'hidden',
+  },
+  outputImage: {
+    width: '100%',
+    height: '100%',
+  },
+  emptyOutput: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.xs,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  outputBadge: {
+    position: 'absolute',
+    top: FreeShowTheme.spacing.sm,
+    left: FreeShowTheme.spacing.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  liveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  badgeText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+    letterSpacing: 0.8,
+  },
+  slideRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+  },
+  slideColumn: {
+    flex: 1,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  slideLabel: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.textSecondary,
+    letterSpacing: 0.8,
+  },
+  currentSlide: {
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+  endOfShow: {
+    aspectRatio: 16 / 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+});
+
+export default SlidePreviewPanel;
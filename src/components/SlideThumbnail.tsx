@@ -0,0 +1,46 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+import { useSlideThumbnail } from '../hooks/useThumbnails';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface SlideThumbnailProps {
+  showId: string | null | undefined;
+  index: number | null | undefined;
+  layoutId?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * 16:9 preview image of a slide, with a placeholder until FreeShow has rendered it
+ */
+const SlideThumbnail: React.FC<SlideThumbnailProps> = ({ showId, index, layoutId, style }) => {
+  const uri = useSlideThumbnail(showId, index, layoutId);
+
+  return (
+    <View style={[styles.frame, style]}>
+      {uri ? (
+        <Image source={{ uri }} style={styles.image} resizeMode="contain" />
+      ) : (
+        <Ionicons name="image-outline" size={20} color={FreeShowTheme.colors.textSecondary} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  frame: {
+    aspectRatio: 16 / 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'black',
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
+
+export default SlideThumbnail;
@@ -0,0 +1,316 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFreeShowApi, useOutputSafety } from '../contexts';
+import { LiveOutputState } from '../hooks/useLiveOutput';
+import { TVRemoteCommand, useTVRemoteControl } from '../hooks/useTVRemoteControl';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowOutputLayer } from '../types';
+import ClearLayersPanel from './ClearLayersPanel';
+import FocusableTouchable from './FocusableTouchable';
+import NowShowingPanel from './NowShowingPanel';
+import { OUTPUT_SAFETY_COLORS } from './OutputSafetyControls';
+
+interface TVRemoteModeProps {
+  visible: boolean;
+  live: LiveOutputState;
+  canRestore: boolean;
+  onClose: () => void;
+  onClearLayer: (layer: FreeShowOutputLayer) => void;
+  onClearAll: () => void;
+  onRestore: () => void;
+  onError: (message: string) => void;
+}
+
+const KEY_HINTS: { keys: string; label: string }[] = [
+  { keys: '◀  ▶', label: 'Previous / next slide' },
+  { keys: '▲  ▼', label: 'Previous / next project item' },
+  { keys: 'OK', label: 'Toggle blackout' },
+  { keys: 'Hold OK', label: 'Clear menu' },
+  { keys: 'Back', label: 'Leave remote mode' },
+];
+
+/**
+ * Full screen presenter mode for TV remotes
+ * The D-pad drives FreeShow directly instead of moving focus, until the clear menu is opened
+ */
+const TVRemoteMode: React.FC<TVRemoteModeProps> = ({
+  visible,
+  live,
+  canRestore,
+  onClose,
+  onClearLayer,
+  onClearAll,
+  onRestore,
+  onError,
+}) => {
+  const api = useFreeShowApi();
+  const outputSafety = useOutputSafety();
+  const [showClearMenu, setShowClearMenu] = useState(false);
+  const [lastAction, setLastAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setShowClearMenu(false);
+      setLastAction(null);
+    }
+  }, [visible]);
+
+  const run = (label: string, command: () => Promise<unknown>) => {
+    setLastAction(label);
+    command().catch(error => {
+      ErrorLogger.warn(`TV remote ${label} failed`, 'TVRemoteMode', error);
+      onError(error instanceof Error ? error.message : `${label} failed`);
+    });
+  };
+
+  const handleCommand = (command: TVRemoteCommand) => {
+    switch (command) {
+      case 'nextSlide':
+        run('Next slide', () => api.nextSlide());
+        break;
+      case 'previousSlide':
+        run('Previous slide', () => api.previousSlide());
+        break;
+      case 'nextItem':
+        run('Next project item', () => api.nextProjectItem());
+        break;
+      case 'previousItem':
+        run('Previous project item', () => api.previousProjectItem());
+        break;
+      case 'select':
+        run(
+          outputSafety.state.mode === 'blackout' ? 'Blackout off' : 'Blackout on',
+          outputSafety.actions.toggleBlackout
+        );
+        break;
+      case 'longSelect':
+        setShowClearMenu(true);
+        break;
+      case 'back':
+        onClose();
+        break;
+    }
+  };
+
+  // While the clear menu is open the D-pad moves focus between its buttons again
+  useTVRemoteControl(handleCommand, visible && !showClearMenu);
+
+  const handleClearAll = () => {
+    setShowClearMenu(false);
+    onClearAll();
+  };
+
+  const isBlackout = outputSafety.state.mode === 'blackout';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={() => (showClearMenu ? setShowClearMenu(false) : onClose())}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.titleRow}>
+            <Ionicons name="tv" size={24} color={FreeShowTheme.colors.secondary} />
+            <Text style={styles.title}>TV Remote</Text>
+          </View>
+          {isBlackout && (
+            <View style={styles.blackoutBadge}>
+              <Ionicons name="moon" size={14} color="white" />
+              <Text style={styles.blackoutBadgeText}>BLACKOUT</Text>
+            </View>
+          )}
+          <FocusableTouchable style={styles.exitButton} onPress={onClose}>
+            <Ionicons name="exit-outline" size={20} color={FreeShowTheme.colors.text} />
+            <Text style={styles.exitButtonText}>Exit</Text>
+          </FocusableTouchable>
+        </View>
+
+        <View style={styles.content}>
+          <NowShowingPanel live={live} />
+
+          <Text style={styles.lastAction}>{lastAction ?? 'Waiting for remote input'}</Text>
+
+          <View style={styles.hints}>
+            {KEY_HINTS.map(hint => (
+              <View key={hint.keys} style={styles.hintRow}>
+                <Text style={styles.hintKeys}>{hint.keys}</Text>
+                <Text style={styles.hintLabel}>{hint.label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {showClearMenu && (
+          <View style={styles.menuBackdrop}>
+            <View style={styles.menu}>
+              <Text style={styles.menuTitle}>Clear</Text>
+              <ClearLayersPanel
+                layers={live.output?.layers ?? null}
+                disabled={false}
+                canRestore={canRestore}
+                onClear={onClearLayer}
+                onRestore={onRestore}
+              />
+              <View style={styles.menuActions}>
+                <FocusableTouchable
+                  style={[styles.menuButton, styles.clearAllButton]}
+                  onPress={handleClearAll}
+                  hasTVPreferredFocus
+                >
+                  <Ionicons name="close-circle" size={20} color="white" />
+                  <Text style={styles.menuButtonText}>Clear All</Text>
+                </FocusableTouchable>
+                <FocusableTouchable
+                  style={styles.menuButton}
+                  onPress={() => setShowClearMenu(false)}
+                >
+                  <Text style={styles.menuButtonText}>Done</Text>
+                </FocusableTouchable>
+              </View>
+            </View>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.xxl,
+    paddingVertical: FreeShowTheme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: FreeShowTheme.colors.primaryLighter,
+  },
+  titleRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  title: {
+    fontSize: FreeShowTheme.fontSize.xl,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  blackoutBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: OUTPUT_SAFETY_COLORS.blackout,
+  },
+  blackoutBadgeText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: 'white',
+  },
+  exitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  exitButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.xxl,
+    gap: FreeShowTheme.spacing.xl,
+  },
+  lastAction: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.secondary,
+    textAlign: 'center',
+  },
+  hints: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.md,
+  },
+  hintRow: {
+    flexGrow: 1,
+    flexBasis: '30%',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  hintKeys: {
+    fontSize: FreeShowTheme.fontSize.xl,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  hintLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  menuBackdrop: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: FreeShowTheme.spacing.xxl,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  menu: {
+    width: '100%',
+    maxWidth: 560,
+    gap: FreeShowTheme.spacing.lg,
+    padding: FreeShowTheme.spacing.xl,
+    borderRadius: FreeShowTheme.borderRadius.xl,
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  menuTitle: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  menuActions: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+  },
+  menuButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  clearAllButton: {
+    backgroundColor: '#dc3545',
+  },
+  menuButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default TVRemoteMode;
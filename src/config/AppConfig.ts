@@ -12,8 +12,14 @@ export interface NetworkConfig {
   autoConnectTimeout: number;
   discoveryTimeout: number;
   reconnectDelay: number;
+  maxReconnectDelay: number;
+  offlineCommandMaxAge: number;
   maxRetries: number;
   keepAliveInterval: number;
+  linkCheckInterval: number;
+  latencyProbeInterval: number;
+  staleLinkThreshold: number;
+  latencySampleWindow: number;
   defaultHost: string;
   hostPlaceholder: string;
   interfacePingTimeout: number;
@@ -21,6 +27,12 @@ export interface NetworkConfig {
   fullscreenHintDuration: number;
   cornerFeedbackDuration: number;
   sidebarCloseDelay: number;
+  outputPollInterval: number;
+  outputThumbnailInterval: number;
+  thumbnailCacheSize: number;
+  holdToConfirmDuration: number;
+  commandSettleDelay: number;
+  pendingToggleTimeout: number;
 }
 
 export interface ShowPortsConfig {
@@ -44,6 +56,8 @@ export interface ValidationConfig {
 
 export interface StorageConfig {
   maxConnectionHistory: number;
+  maxRecentShows: number;
+  maxStageMessageHistory: number;
 }
 
 export interface AppConfig {
@@ -78,8 +92,14 @@ const DEFAULT_CONFIG: AppConfig = {
     autoConnectTimeout: 15000, // 15 seconds
     discoveryTimeout: 5000, // 5 seconds
     reconnectDelay: 3000, // 3 seconds
+    maxReconnectDelay: 30000, // 30 seconds
+    offlineCommandMaxAge: 60000, // 1 minute
     maxRetries: 3,
     keepAliveInterval: 30000, // 30 seconds
+    linkCheckInterval: 5000, // 5 seconds, local only, sends nothing
+    latencyProbeInterval: 10000, // 10 seconds, one get_output round trip
+    staleLinkThreshold: 20000, // 20 seconds, two missed probes
+    latencySampleWindow: 20, // samples
     defaultHost: '192.168.1.100',
     hostPlaceholder: '192.168.1.100',
     interfacePingTimeout: 2000, // 2 seconds
@@ -87,6 +107,12 @@ const DEFAULT_CONFIG: AppConfig = {
     fullscreenHintDuration: 3000, // 3 seconds
     cornerFeedbackDuration: 200, // milliseconds
     sidebarCloseDelay: 150, // milliseconds
+    outputPollInterval: 1000, // 1 second
+    outputThumbnailInterval: 3000, // 3 seconds
+    thumbnailCacheSize: 60, // images
+    holdToConfirmDuration: 1500, // milliseconds
+    commandSettleDelay: 750, // milliseconds, before reading back a change FreeShow doesn't answer
+    pendingToggleTimeout: 3000, // 3 seconds, then a toggle FreeShow never reported stops waiting
   },
   defaultShowPorts: {
     remote: 5510,
@@ -146,6 +172,8 @@ const DEFAULT_CONFIG: AppConfig = {
   },
   storage: {
     maxConnectionHistory: 50, // Maximum number of connections to store in history
+    maxRecentShows: 8, // Maximum number of recently used shows to remember
+    maxStageMessageHistory: 20, // Unsaved stage messages kept in history
   },
   isDevelopment: __DEV__,
   platform: Platform.OS as 'ios' | 'android' | 'web',
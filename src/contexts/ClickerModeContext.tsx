@@ -0,0 +1,102 @@
+// Clicker Mode Context - Turns presenter clicker and key presses into slide navigation
+
+import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import { ClickerCommand, isClickerInputSupported, useClickerInput } from '../hooks/useClickerInput';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { isDroppedOffline } from '../services/FreeShowApiClient';
+import { useConnectionState, useFreeShowApi } from './ConnectionStateContext';
+
+export interface ClickerModeState {
+  // False where the device never passes key presses to the app, e.g. phones
+  isSupported: boolean;
+  enabled: boolean;
+  lastCommand: ClickerCommand | null;
+}
+
+export interface ClickerModeActions {
+  setEnabled: (enabled: boolean) => void;
+}
+
+export interface ClickerModeContextType {
+  state: ClickerModeState;
+  actions: ClickerModeActions;
+}
+
+const ClickerModeContext = createContext<ClickerModeContextType | undefined>(undefined);
+
+// Separate tag so clicker mode doesn't fight the keep-awake setting
+const KEEP_AWAKE_TAG = 'clicker-mode';
+
+const IS_SUPPORTED = isClickerInputSupported();
+
+/**
+ * Clicker mode lasts for the current session only, it is never persisted
+ */
+export const ClickerModeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const api = useFreeShowApi();
+  const { isConnected } = useConnectionState();
+  const [enabled, setEnabled] = useState(false);
+  const [lastCommand, setLastCommand] = useState<ClickerCommand | null>(null);
+
+  const logContext = 'ClickerModeProvider';
+  const listening = IS_SUPPORTED && enabled && isConnected;
+
+  const handleCommand = useCallback(
+    (command: ClickerCommand) => {
+      // Presses while reconnecting still go to the service, which reports them as dropped
+      // through the connection banner instead of losing them silently
+      setLastCommand(command);
+      const send = command === 'next' ? api.nextSlide() : api.previousSlide();
+      send.catch(error => {
+        if (isDroppedOffline(error)) return;
+        ErrorLogger.warn(
+          `Clicker ${command} failed`,
+          logContext,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+    },
+    [api]
+  );
+
+  useClickerInput(handleCommand, listening);
+
+  // Keep the screen from locking, a locked device stops receiving clicker input
+  useEffect(() => {
+    if (!listening) return;
+    activateKeepAwakeAsync(KEEP_AWAKE_TAG).catch(error => {
+      ErrorLogger.debug('Failed to keep device awake for clicker mode', logContext, { error });
+    });
+    return () => {
+      deactivateKeepAwake(KEEP_AWAKE_TAG);
+    };
+  }, [listening]);
+
+  useEffect(() => {
+    ErrorLogger.info(enabled ? 'Clicker mode enabled' : 'Clicker mode disabled', logContext);
+    if (!enabled) setLastCommand(null);
+  }, [enabled]);
+
+  const contextValue: ClickerModeContextType = {
+    state: { isSupported: IS_SUPPORTED, enabled, lastCommand },
+    actions: { setEnabled },
+  };
+
+  return <ClickerModeContext.Provider value={contextValue}>{children}</ClickerModeContext.Provider>;
+};
+
+export const useClickerMode = (): ClickerModeContextType => {
+  const context = useContext(ClickerModeContext);
+  if (context === undefined) {
+    throw new Error('useClickerMode must be used within a ClickerModeProvider');
+  }
+  return context;
+};
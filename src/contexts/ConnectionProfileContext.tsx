@@ -0,0 +1,142 @@
+// Connection Profile Context - Applies the per-host profile of the active connection over the app settings
+
+import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
+import * as ScreenOrientation from 'expo-screen-orientation';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  ReactNode,
+} from 'react';
+import {
+  applyConnectionProfile,
+  ConnectionProfile,
+  EffectiveSettings,
+  settingsRepository,
+} from '../repositories/SettingsRepository';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { useConnectionState, useFreeShowService } from './ConnectionStateContext';
+import { useSettings } from './SettingsContext';
+
+export interface ConnectionProfileState {
+  // Profile of the connected host, null while disconnected or when it has no overrides
+  profile: ConnectionProfile | null;
+  effectiveSettings: EffectiveSettings | null;
+}
+
+export interface ConnectionProfileActions {
+  updateProfile: (host: string, profile: ConnectionProfile) => Promise<void>;
+  resetDeck: (host: string) => Promise<void>;
+}
+
+export interface ConnectionProfileContextType {
+  state: ConnectionProfileState;
+  actions: ConnectionProfileActions;
+}
+
+const ConnectionProfileContext = createContext<ConnectionProfileContextType | undefined>(undefined);
+
+// Separate tag so the keep-awake setting doesn't fight clicker mode
+const KEEP_AWAKE_TAG = 'connection-profile';
+
+const ORIENTATION_LOCKS = {
+  portrait: ScreenOrientation.OrientationLock.PORTRAIT_UP,
+  landscape: ScreenOrientation.OrientationLock.LANDSCAPE,
+};
+
+/**
+ * Profiles are stored with the connection history, edits to the connected host apply straight away
+ */
+export const ConnectionProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const service = useFreeShowService();
+  const { isConnected, connectionHost } = useConnectionState();
+  const { settings, history, actions: settingsActions } = useSettings();
+
+  const logContext = 'ConnectionProfileProvider';
+
+  const profile = useMemo(() => {
+    if (!isConnected || !connectionHost) return null;
+    return history.find(item => item.host === connectionHost)?.profile ?? null;
+  }, [isConnected, connectionHost, history]);
+
+  const effectiveSettings = useMemo(
+    () => (settings ? applyConnectionProfile(settings, profile) : null),
+    [settings, profile]
+  );
+
+  const keepAwake = effectiveSettings?.keepAwake ?? false;
+  const orientation = profile?.orientation;
+  const connectionTimeout = profile?.connectionTimeout;
+
+  // The global setting with the connected host's override applied, clicker mode keeps its own tag
+  useEffect(() => {
+    if (!keepAwake) return;
+
+    activateKeepAwakeAsync(KEEP_AWAKE_TAG).catch(error => {
+      ErrorLogger.debug('Failed to keep device awake for connection profile', logContext, {
+        error,
+      });
+    });
+    return () => {
+      deactivateKeepAwake(KEEP_AWAKE_TAG);
+    };
+  }, [keepAwake]);
+
+  useEffect(() => {
+    if (!orientation || orientation === 'auto') return;
+
+    ScreenOrientation.lockAsync(ORIENTATION_LOCKS[orientation]).catch(error => {
+      ErrorLogger.debug('Failed to lock orientation for connection profile', logContext, {
+        error,
+      });
+    });
+    return () => {
+      ScreenOrientation.unlockAsync().catch(error => {
+        ErrorLogger.debug('Failed to unlock orientation', logContext, { error });
+      });
+    };
+  }, [orientation]);
+
+  // Covers edits while connected, the connect flow applies the timeout before the socket opens
+  useEffect(() => {
+    if (!isConnected) return;
+    service.setConnectionTimeout(connectionTimeout ? connectionTimeout * 1000 : null);
+  }, [service, isConnected, connectionTimeout]);
+
+  const updateProfile = useCallback(
+    async (host: string, nextProfile: ConnectionProfile) => {
+      await settingsRepository.setConnectionProfile(host, nextProfile);
+      await settingsActions.refreshHistory();
+    },
+    [settingsActions]
+  );
+
+  const resetDeck = useCallback(
+    async (host: string) => {
+      await settingsRepository.clearConnectionDeck(host);
+      await settingsActions.refreshHistory();
+    },
+    [settingsActions]
+  );
+
+  const contextValue: ConnectionProfileContextType = {
+    state: { profile, effectiveSettings },
+    actions: { updateProfile, resetDeck },
+  };
+
+  return (
+    <ConnectionProfileContext.Provider value={contextValue}>
+      {children}
+    </ConnectionProfileContext.Provider>
+  );
+};
+
+export const useConnectionProfile = (): ConnectionProfileContextType => {
+  const context = useContext(ConnectionProfileContext);
+  if (context === undefined) {
+    throw new Error('useConnectionProfile must be used within a ConnectionProfileProvider');
+  }
+  return context;
+};
@@ -1,20 +1,29 @@
 // Connection State Context - Manages connection state and auto-reconnect logic
 
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import { FreeShowService } from '../services/FreeShowService';
-import { IFreeShowService } from '../services/interfaces/IFreeShowService';
+import { ConnectionPool, ConnectionSession } from '../services/ConnectionPool';
+import { FreeShowApiClient } from '../services/FreeShowApiClient';
+import { FreeShowConnectionHealth, IFreeShowBufferedRequest, IFreeShowHealthEvent, IFreeShowLinkStats, IFreeShowService } from '../services/interfaces/IFreeShowService';
 import { ErrorLogger } from '../services/ErrorLogger';
 import { settingsRepository } from '../repositories';
 import { configService } from '../config/AppConfig';
 import { InterfacePingService } from '../services/InterfacePingService';
 
 export interface ConnectionState {
+  // Stays true while a dropped connection is being retried, see connectionHealth for the live link
   isConnected: boolean;
   connectionHost: string | null;
   connectionName: string | null;
   connectionPort: number | null;
   connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error';
+  connectionHealth: FreeShowConnectionHealth;
+  reconnectAttempt: number;
+  // Round-trip time and jitter from the heartbeat, null until the first tick
+  linkStats: IFreeShowLinkStats | null;
+  // Commands waiting for the connection to come back, and the last one refused while it was down
+  bufferedCommands: IFreeShowBufferedRequest[];
+  lastDroppedCommand: { action: string; timestamp: string } | null;
   lastError: string | null;
   connectionStartTime: Date | null;
   lastActivity: Date | null;
@@ -53,17 +62,41 @@ export interface ConnectionActions {
   updateCapabilities: (capabilities: string[]) => void;
   updateConnectionName: (name: string) => void;
   cancelConnection: () => void;
+  cancelBufferedCommand: (id: string) => void;
+  clearBufferedCommands: () => void;
+  // Several machines can be held at once, these act on the pool of connections
+  switchConnection: (id: string) => void;
+  addConnection: () => void;
+  removeConnection: (id: string) => Promise<void>;
+  setConnectionLinked: (id: string, linked: boolean) => void;
   setAutoConnectAttempted: (attempted: boolean) => void;
-  triggerAutoLaunch?: (connectionHost: string, connectionPort: number, navigation?: any, showPorts?: any) => Promise<void>;
+  // force launches straight away for a connection picked by the user, even after auto-launch ran
+  triggerAutoLaunch?: (connectionHost: string, connectionPort: number, navigation?: any, showPorts?: any, force?: boolean) => Promise<void>;
 }
 
 export interface ConnectionContextType {
   state: ConnectionState;
   actions: ConnectionActions;
   service: IFreeShowService;
+  api: FreeShowApiClient;
+  pool: ConnectionPool<ConnectionState>;
+  activeConnectionId: string;
   navigation: any;
 }
 
+/**
+ * Summary of one held connection, for switching between machines
+ */
+export interface ConnectionSessionSummary {
+  id: string;
+  name: string | null;
+  host: string | null;
+  isActive: boolean;
+  isConnected: boolean;
+  health: FreeShowConnectionHealth;
+  linked: boolean;
+}
+
 const ConnectionContext = createContext<ConnectionContextType | undefined>(undefined);
 
 interface ConnectionProviderProps {
@@ -80,6 +113,53 @@ const resetAutoReconnectFlag = () => {
   globalAutoReconnectAttempted = false;
 };
 
+// The profile timeout has to be set before the socket opens, it only covers this service
+const applyProfileTimeout = async (service: IFreeShowService, host: string): Promise<void> => {
+  const profile = await settingsRepository.getConnectionProfile(host);
+  service.setConnectionTimeout(profile?.connectionTimeout ? profile.connectionTimeout * 1000 : null);
+};
+
+const INITIAL_CONNECTION_STATE: ConnectionState = {
+  isConnected: false,
+  connectionHost: null,
+  connectionName: null,
+  connectionPort: null,
+  connectionStatus: 'disconnected',
+  connectionHealth: 'offline',
+  reconnectAttempt: 0,
+  linkStats: null,
+  bufferedCommands: [],
+  lastDroppedCommand: null,
+  lastError: null,
+  connectionStartTime: null,
+  lastActivity: null,
+  currentShowPorts: null,
+  capabilities: null,
+  autoConnectAttempted: false,
+  autoLaunchTriggered: false,
+};
+
+// Rebuild the state of a session coming back to the front, its service kept running meanwhile
+const restoreSessionState = (session: ConnectionSession<ConnectionState>): ConnectionState => {
+  const { service } = session;
+  const health = service.getConnectionHealth();
+  const held = service.isConnected() || health === 'reconnecting';
+
+  return {
+    ...(session.snapshot ?? INITIAL_CONNECTION_STATE),
+    isConnected: held,
+    connectionStatus: service.isConnected() ? 'connected' : held ? 'connecting' : 'disconnected',
+    connectionHealth: health,
+    reconnectAttempt: 0,
+    linkStats: held ? service.getLinkStats() : null,
+    bufferedCommands: service.getBufferedRequests(),
+    lastDroppedCommand: null,
+    lastError: null,
+    // A new slot goes straight to the Connect screen instead of waiting for auto-connect
+    autoConnectAttempted: true,
+  };
+};
+
 export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({ 
   children, 
   service: injectedService,
@@ -87,23 +167,24 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
   onConnectionHistoryUpdate,
   quickActionRef
 }) => {
-  const [state, setState] = useState<ConnectionState>({
-    isConnected: false,
-    connectionHost: null,
-    connectionName: null,
-    connectionPort: null,
-    connectionStatus: 'disconnected',
-    lastError: null,
-    connectionStartTime: null,
-    lastActivity: null,
-    currentShowPorts: null,
-    capabilities: null,
-    autoConnectAttempted: false,
-    autoLaunchTriggered: false,
-  });
+  const [state, setState] = useState<ConnectionState>(INITIAL_CONNECTION_STATE);
 
   const navigationRef = useRef<any>(null);
-  const service = injectedService || new FreeShowService();
+  // Keep the pool (and every socket in it) for the lifetime of the provider
+  const pool = useMemo(
+    () => new ConnectionPool<ConnectionState>(injectedService),
+    [injectedService]
+  );
+  const [activeConnectionId, setActiveConnectionId] = useState(() => pool.getActive().id);
+  // Everything below talks to the active connection only
+  const service = useMemo<IFreeShowService>(
+    () => (pool.getSession(activeConnectionId) ?? pool.getActive()).service,
+    [pool, activeConnectionId]
+  );
+  const api = useMemo(
+    () => new FreeShowApiClient(service, () => pool.getMirrorTargets()),
+    [service, pool]
+  );
   const logContext = 'ConnectionProvider';
   const cancelConnectionRef = useRef(false);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -125,16 +206,29 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
         connectionStatus: 'connected',
         connectionStartTime: new Date(),
         lastActivity: new Date(),
+        lastDroppedCommand: null,
         lastError: null,
       }));
       ErrorLogger.info('Connection established', logContext, data);
     };
 
     const handleDisconnect = (data: any) => {
+      // The service keeps retrying on its own, so hold on to the session instead of falling back
+      if (data?.willReconnect) {
+        setState(prev => ({
+          ...prev,
+          connectionStatus: 'connecting',
+          lastActivity: new Date(),
+        }));
+        ErrorLogger.info('Connection lost, reconnecting', logContext, data);
+        return;
+      }
+
       setState(prev => ({
         ...prev,
         isConnected: false,
         connectionStatus: 'disconnected',
+        linkStats: null,
         lastActivity: new Date(),
         autoLaunchTriggered: false, // Reset for next auto-connect session
         autoConnectAttempted: true, // Mark auto-connect as attempted after disconnect
@@ -152,16 +246,46 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       ErrorLogger.error('Connection error', logContext, new Error(data.error?.message || 'Unknown error'));
     };
 
+    const handleHealth = (data: IFreeShowHealthEvent) => {
+      setState(prev => ({
+        ...prev,
+        connectionHealth: data.health,
+        reconnectAttempt: data.attempt,
+      }));
+      ErrorLogger.debug('Connection health changed', logContext, data);
+    };
+
+    const handleLinkStats = (linkStats: IFreeShowLinkStats) => {
+      setState(prev => ({ ...prev, linkStats }));
+    };
+
+    const handleBuffer = (bufferedCommands: IFreeShowBufferedRequest[]) => {
+      setState(prev => ({ ...prev, bufferedCommands }));
+    };
+
+    const handleCommandDropped = (data: { action: string; timestamp: string }) => {
+      setState(prev => ({ ...prev, lastDroppedCommand: data }));
+      ErrorLogger.warn(`Command dropped while reconnecting: ${data.action}`, logContext);
+    };
+
     // Listen to service events
     service.on('connect', handleConnect);
     service.on('disconnect', handleDisconnect);
     service.on('error', handleError);
+    service.on('health', handleHealth);
+    service.on('link_stats', handleLinkStats);
+    service.on('buffer', handleBuffer);
+    service.on('command_dropped', handleCommandDropped);
 
     // Cleanup listeners on unmount
     return () => {
       service.off('connect', handleConnect);
       service.off('disconnect', handleDisconnect);
       service.off('error', handleError);
+      service.off('health', handleHealth);
+      service.off('link_stats', handleLinkStats);
+      service.off('buffer', handleBuffer);
+      service.off('command_dropped', handleCommandDropped);
     };
   }, [service, logContext]);
 
@@ -297,6 +421,7 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       }, timeoutMs);
       
       try {
+        await applyProfileTimeout(service, host);
         await service.connect(host, port, nickname);
         if (timeoutHandle) clearTimeout(timeoutHandle);
         return !didTimeout;
@@ -351,10 +476,10 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
 
   // Auto-launch functionality
   // Auto-launch functionality
-  const triggerAutoLaunch = useCallback(async (connectionHost: string, connectionPort: number, nav?: any, showPorts?: any) => {
+  const triggerAutoLaunch = useCallback(async (connectionHost: string, connectionPort: number, nav?: any, showPorts?: any, force = false) => {
     try {
       // Simple logic: only auto-launch if not triggered yet this session
-      if (state.autoLaunchTriggered) {
+      if (state.autoLaunchTriggered && !force) {
         return;
       }
 
@@ -363,10 +488,11 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
         return;
       }
 
-      const appSettings = await settingsRepository.getAppSettings();
+      // The profile of this host wins over the global auto-launch settings
+      const appSettings = await settingsRepository.getEffectiveSettings(connectionHost);
       
       // Auto-launch interface only if conditions are met
-      if (appSettings.autoReconnect && appSettings.autoLaunchInterface !== 'none') {
+      if ((appSettings.autoReconnect || force) && appSettings.autoLaunchInterface !== 'none') {
         // Mark auto-launch as triggered for this session
         setState(prev => ({ ...prev, autoLaunchTriggered: true }));
         
@@ -416,6 +542,18 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     }
   }, [state.autoLaunchTriggered, state.currentShowPorts]);
 
+  // Only retry dropped connections while the app is in the foreground, for every held machine
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        pool.forEachService(pooled => pooled.resumeReconnection());
+      } else if (nextAppState === 'background') {
+        pool.forEachService(pooled => pooled.pauseReconnection());
+      }
+    });
+    return () => subscription?.remove();
+  }, [pool]);
+
   // App state listener for foreground reconnection
   useEffect(() => {
     let previousAppState = AppState.currentState;
@@ -497,6 +635,7 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     }));
     cancelConnectionRef.current = false;
     try {
+      await applyProfileTimeout(service, host);
       const connectPromise = service.connect(host, port, name);
       await Promise.race([
         connectPromise,
@@ -714,6 +853,42 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     resetAutoReconnectFlag();
   }, [service]);
 
+  const cancelBufferedCommand = useCallback((id: string) => {
+    service.cancelBufferedRequest(id);
+  }, [service]);
+
+  const clearBufferedCommands = useCallback(() => {
+    service.clearBufferedRequests();
+  }, [service]);
+
+  const switchConnection = useCallback((id: string) => {
+    const next = pool.getSession(id);
+    if (!next || id === activeConnectionId) return;
+
+    pool.saveSnapshot(activeConnectionId, state);
+    pool.setActive(id);
+    setActiveConnectionId(id);
+    setState(restoreSessionState(next));
+    ErrorLogger.info('[ConnectionState] Switched active connection', logContext, { id, host: next.snapshot?.connectionHost });
+  }, [pool, activeConnectionId, state, logContext]);
+
+  const addConnection = useCallback(() => {
+    switchConnection(pool.addSession().id);
+  }, [pool, switchConnection]);
+
+  const removeConnection = useCallback(async (id: string) => {
+    if (pool.getSessions().length <= 1) return;
+    if (id === activeConnectionId) {
+      const fallback = pool.getSessions().find(session => session.id !== id);
+      if (fallback) switchConnection(fallback.id);
+    }
+    await pool.removeSession(id);
+  }, [pool, activeConnectionId, switchConnection]);
+
+  const setConnectionLinked = useCallback((id: string, linked: boolean) => {
+    pool.setLinked(id, linked);
+  }, [pool]);
+
   const setAutoConnectAttempted = useCallback((attempted: boolean) => {
     setState(prev => ({
       ...prev,
@@ -783,6 +958,12 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     updateCapabilities,
     updateConnectionName,
     cancelConnection,
+    cancelBufferedCommand,
+    clearBufferedCommands,
+    switchConnection,
+    addConnection,
+    removeConnection,
+    setConnectionLinked,
     setAutoConnectAttempted,
     triggerAutoLaunch,
   };
@@ -791,6 +972,9 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     state,
     actions,
     service,
+    api,
+    pool,
+    activeConnectionId,
     navigation: navigationRef.current,
   };
 
@@ -830,3 +1014,33 @@ export const useConnectionActions = (): ConnectionActions => {
 export const useFreeShowService = (): IFreeShowService => {
   return useConnection().service;
 };
+
+export const useFreeShowApi = (): FreeShowApiClient => {
+  return useConnection().api;
+};
+
+/**
+ * Every held connection, kept up to date as they connect, drop or get linked
+ */
+export const useConnectionSessions = (): ConnectionSessionSummary[] => {
+  const { pool, state, activeConnectionId } = useConnection();
+  const [, setVersion] = useState(0);
+
+  useEffect(() => pool.subscribe(() => setVersion(version => version + 1)), [pool]);
+
+  return pool.getSessions().map(session => {
+    const isActive = session.id === activeConnectionId;
+    // The active session's snapshot is stale, its live state is in the context
+    const snapshot = isActive ? state : session.snapshot;
+    const health = session.service.getConnectionHealth();
+    return {
+      id: session.id,
+      name: snapshot?.connectionName ?? null,
+      host: snapshot?.connectionHost ?? null,
+      isActive,
+      isConnected: session.service.isConnected() || health === 'reconnecting',
+      health,
+      linked: session.linked,
+    };
+  });
+};
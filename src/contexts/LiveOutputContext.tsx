@@ -0,0 +1,150 @@
+// Live Output Context - One poll of FreeShow's output shared by every screen that follows it
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import { usePolledState } from '../hooks/usePolledState';
+import { decodeOutput } from '../services/FreeShowApiClient';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowOutput, FreeShowShow } from '../types';
+import { getLayoutSlides, getShowLayout } from '../utils/slideUtils';
+import { useConnectionState, useFreeShowApi } from './ConnectionStateContext';
+
+export interface LiveOutputFeedState {
+  output: FreeShowOutput | null;
+  show: FreeShowShow | null;
+  isLoading: boolean;
+}
+
+export interface LiveOutputFeedActions {
+  // Keeps the output poll running until the returned function is called
+  watch: () => () => void;
+}
+
+export interface LiveOutputContextType {
+  state: LiveOutputFeedState;
+  actions: LiveOutputFeedActions;
+}
+
+const LiveOutputContext = createContext<LiveOutputContextType | undefined>(undefined);
+
+const OUTPUT_ACTIONS = ['get_output', 'output'];
+const SHOW_ACTIONS = ['get_show', 'show', 'get_shows', 'shows'];
+
+// A cached show is out of date when it lacks the layout or slide FreeShow reports as live
+const isShowCurrent = (show: FreeShowShow, output: FreeShowOutput | null): boolean => {
+  if (!output?.layoutId) return true;
+  if (!getShowLayout(show, output.layoutId)) return false;
+  const slideIndex = output.slideIndex ?? 0;
+  return slideIndex < getLayoutSlides(show, output.layoutId).length;
+};
+
+/**
+ * Polls the output only while a screen watches it, screens kept mounted under the stack share the poll
+ */
+export const LiveOutputProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const api = useFreeShowApi();
+  const { isConnected } = useConnectionState();
+  const [watchers, setWatchers] = useState(0);
+  const [show, setShow] = useState<FreeShowShow | null>(null);
+  const [showRevision, setShowRevision] = useState(0);
+  const showCacheRef = useRef<Map<string, FreeShowShow>>(new Map());
+
+  const logContext = 'LiveOutputProvider';
+
+  const fetchOutput = useCallback(() => api.getOutput(), [api]);
+  const { data: output, isLoading } = usePolledState(fetchOutput, {
+    enabled: watchers > 0,
+    logContext,
+    onMessage: message =>
+      message.action && OUTPUT_ACTIONS.includes(message.action)
+        ? decodeOutput(message.data)
+        : undefined,
+  });
+
+  // A show was edited in FreeShow, load it again instead of showing the old slides
+  useEffect(() => {
+    if (!isConnected) return;
+
+    return api.onUnsolicited(message => {
+      if (!message.action || !SHOW_ACTIONS.includes(message.action)) return;
+      const changedShowId = message.data?.id ?? message.data?.showId;
+      if (typeof changedShowId === 'string') {
+        showCacheRef.current.delete(changedShowId);
+      } else {
+        showCacheRef.current.clear();
+      }
+      setShowRevision(revision => revision + 1);
+    });
+  }, [api, isConnected]);
+
+  // Load the show behind the output whenever it changes
+  const showId = output?.showId;
+  const cachedShow = showId ? showCacheRef.current.get(showId) : undefined;
+  const isCacheStale = !!cachedShow && !isShowCurrent(cachedShow, output);
+  useEffect(() => {
+    if (!showId) {
+      setShow(null);
+      return;
+    }
+
+    const cached = showCacheRef.current.get(showId);
+    if (cached && !isCacheStale) {
+      setShow(cached);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .getShow(showId)
+      .then(loadedShow => {
+        if (cancelled || !loadedShow) return;
+        showCacheRef.current.set(showId, loadedShow);
+        setShow(loadedShow);
+      })
+      .catch(error => {
+        ErrorLogger.warn(
+          'Failed to load live show',
+          logContext,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, showId, showRevision, isCacheStale]);
+
+  // Forget cached shows when the connection goes away, they may have been edited meanwhile
+  useEffect(() => {
+    if (!isConnected) {
+      showCacheRef.current.clear();
+    }
+  }, [isConnected]);
+
+  const watch = useCallback(() => {
+    setWatchers(count => count + 1);
+    return () => setWatchers(count => count - 1);
+  }, []);
+
+  const contextValue: LiveOutputContextType = {
+    state: { output, show, isLoading },
+    actions: { watch },
+  };
+
+  return <LiveOutputContext.Provider value={contextValue}>{children}</LiveOutputContext.Provider>;
+};
+
+export const useLiveOutputFeed = (): LiveOutputContextType => {
+  const context = useContext(LiveOutputContext);
+  if (context === undefined) {
+    throw new Error('useLiveOutputFeed must be used within a LiveOutputProvider');
+  }
+  return context;
+};
@@ -0,0 +1,150 @@
+// Output Safety Context - Tracks blackout / freeze of all outputs across screens
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { useConnectionState, useFreeShowApi } from './ConnectionStateContext';
+import { useLiveOutputFeed } from './LiveOutputContext';
+
+export type OutputSafetyMode = 'blackout' | 'freeze';
+
+export interface OutputSafetyState {
+  mode: OutputSafetyMode | null;
+  isBusy: boolean;
+}
+
+export interface OutputSafetyActions {
+  engage: (mode: OutputSafetyMode) => Promise<void>;
+  restore: () => Promise<void>;
+  // One-press blackout for remotes and gestures, refuses while the outputs are frozen
+  toggleBlackout: () => Promise<void>;
+}
+
+export interface OutputSafetyContextType {
+  state: OutputSafetyState;
+  actions: OutputSafetyActions;
+}
+
+const OutputSafetyContext = createContext<OutputSafetyContextType | undefined>(undefined);
+
+export const OutputSafetyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const api = useFreeShowApi();
+  const { isConnected } = useConnectionState();
+  const [mode, setMode] = useState<OutputSafetyMode | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Outputs we locked for a freeze, so restore only unlocks those
+  const [frozenOutputIds, setFrozenOutputIds] = useState<string[]>([]);
+
+  const logContext = 'OutputSafetyProvider';
+
+  // After a disconnect we can no longer tell what the outputs are doing
+  useEffect(() => {
+    if (!isConnected) {
+      setMode(null);
+      setFrozenOutputIds([]);
+    }
+  }, [isConnected]);
+
+  // Follow blackout from the shared output poll, so one started or ended at the desk shows here too
+  const { state: live, actions: liveActions } = useLiveOutputFeed();
+  const { watch } = liveActions;
+  useEffect(() => (isConnected ? watch() : undefined), [isConnected, watch]);
+
+  const reportedBlackout = live.output?.blackout;
+  useEffect(() => {
+    if (reportedBlackout === undefined) return;
+    setMode(current => (current === 'freeze' ? current : reportedBlackout ? 'blackout' : null));
+  }, [reportedBlackout]);
+
+  // Blackout and freeze belong to one machine, switching connections starts clean
+  useEffect(() => {
+    setMode(null);
+    setFrozenOutputIds([]);
+  }, [api]);
+
+  const engage = useCallback(
+    async (nextMode: OutputSafetyMode) => {
+      if (mode) return;
+
+      setIsBusy(true);
+      try {
+        if (nextMode === 'blackout') {
+          await api.toggleBlackout();
+        } else {
+          const outputs = await api.getOutputs();
+          const toFreeze = outputs.filter(output => output.enabled && !output.locked);
+          await Promise.all(toFreeze.map(output => api.setOutputLocked(output.id, true)));
+          setFrozenOutputIds(toFreeze.map(output => output.id));
+        }
+        setMode(nextMode);
+        ErrorLogger.info(`Outputs ${nextMode} engaged`, logContext);
+      } catch (error) {
+        ErrorLogger.error(
+          `Failed to engage ${nextMode}`,
+          logContext,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [api, mode]
+  );
+
+  const restore = useCallback(async () => {
+    if (!mode) return;
+
+    setIsBusy(true);
+    try {
+      if (mode === 'blackout') {
+        await api.toggleBlackout();
+      } else {
+        await Promise.all(frozenOutputIds.map(id => api.setOutputLocked(id, false)));
+        setFrozenOutputIds([]);
+      }
+      ErrorLogger.info(`Outputs restored from ${mode}`, logContext);
+      setMode(null);
+    } catch (error) {
+      ErrorLogger.error(
+        `Failed to restore from ${mode}`,
+        logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [api, mode, frozenOutputIds]);
+
+  const toggleBlackout = useCallback(async () => {
+    if (isBusy) return;
+    if (mode === 'freeze') {
+      throw new Error('Outputs are frozen. Restore them before blacking out.');
+    }
+    await (mode === 'blackout' ? restore() : engage('blackout'));
+  }, [isBusy, mode, restore, engage]);
+
+  const contextValue: OutputSafetyContextType = {
+    state: { mode, isBusy },
+    actions: { engage, restore, toggleBlackout },
+  };
+
+  return (
+    <OutputSafetyContext.Provider value={contextValue}>{children}</OutputSafetyContext.Provider>
+  );
+};
+
+export const useOutputSafety = (): OutputSafetyContextType => {
+  const context = useContext(OutputSafetyContext);
+  if (context === undefined) {
+    throw new Error('useOutputSafety must be used within an OutputSafetyProvider');
+  }
+  return context;
+};
@@ -1,8 +1,12 @@
 // Combined Context Provider - Combines all focused contexts for backward compatibility
 
 import React, { ReactNode } from 'react';
+import { ClickerModeProvider } from './ClickerModeContext';
+import { ConnectionProfileProvider } from './ConnectionProfileContext';
 import { ConnectionProvider } from './ConnectionStateContext';
 import { DiscoveryProvider } from './DiscoveryContext';
+import { LiveOutputProvider } from './LiveOutputContext';
+import { OutputSafetyProvider } from './OutputSafetyContext';
 import { SettingsProvider, useSettings } from './SettingsContext';
 
 
@@ -20,9 +24,17 @@ const ConnectionProviderWithSettings: React.FC<{
       onConnectionHistoryUpdate={actions.refreshHistory}
       quickActionRef={quickActionRef}
     >
-      <DiscoveryProvider autoStartDiscovery={false}>
-        {children}
-      </DiscoveryProvider>
+      <ConnectionProfileProvider>
+        <LiveOutputProvider>
+          <OutputSafetyProvider>
+            <ClickerModeProvider>
+              <DiscoveryProvider autoStartDiscovery={false}>
+                {children}
+              </DiscoveryProvider>
+            </ClickerModeProvider>
+          </OutputSafetyProvider>
+        </LiveOutputProvider>
+      </ConnectionProfileProvider>
     </ConnectionProvider>
   );
 };
@@ -42,7 +54,11 @@ export const AppContextProvider: React.FC<{
   );
 };
 
+export * from './ClickerModeContext';
+export * from './ConnectionProfileContext';
 export * from './ConnectionStateContext';
 export * from './DiscoveryContext';
+export * from './LiveOutputContext';
+export * from './OutputSafetyContext';
 export * from './SettingsContext';
 
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useFreeShowApi } from '../contexts';
+import { decodeAudioState } from '../services/FreeShowApiClient';
+import { FreeShowAudioState } from '../types';
+import { usePolledState } from './usePolledState';
+
+export interface AudioHookState {
+  audio: FreeShowAudioState | null;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const AUDIO_ACTIONS = ['get_audio', 'audio'];
+
+/**
+ * Hook that follows FreeShow's audio library, playback and volume
+ */
+export const useAudio = (): AudioHookState => {
+  const api = useFreeShowApi();
+  const fetchAudio = useCallback(() => api.getAudio(), [api]);
+  const { data, isLoading, refresh } = usePolledState(fetchAudio, {
+    logContext: 'useAudio',
+    onMessage: message =>
+      message.action && AUDIO_ACTIONS.includes(message.action)
+        ? decodeAudioState(message.data)
+        : undefined,
+  });
+
+  return { audio: data, isLoading, refresh };
+};
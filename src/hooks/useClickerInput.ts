@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import { normalizeTVEvent, useTVEvent } from './useTVEvent';
+
+export type ClickerCommand = 'next' | 'previous';
+
+// Presenter remotes send the same command as key down and key up, and some repeat quickly
+const REPEAT_GUARD_MS = 150;
+
+const COMMANDS_BY_NAME: Record<string, ClickerCommand> = {
+  // TV remote and RN key event names, D-pad up / down stay with focus navigation on TV
+  right: 'next',
+  pageDown: 'next',
+  space: 'next',
+  next: 'next',
+  fastForward: 'next',
+  left: 'previous',
+  pageUp: 'previous',
+  previous: 'previous',
+  rewind: 'previous',
+  // DOM key names, for web builds and hardware keyboards
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  MediaTrackNext: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  PageUp: 'previous',
+  MediaTrackPrevious: 'previous',
+};
+
+/**
+ * Map a native key or remote event to a slide command, or null for keys clicker mode ignores
+ */
+export const normalizeClickerEvent = (evt: any): ClickerCommand | null => {
+  if (!evt) return null;
+  // RN TV events report key up as eventKeyAction 1, only act on key down
+  if (evt.eventKeyAction === 1) return null;
+
+  const name = normalizeTVEvent(evt);
+  return name ? (COMMANDS_BY_NAME[name] ?? null) : null;
+};
+
+/**
+ * Whether key presses can reach the app at all
+ * Stock React Native phones have no TV event handler, so only web and TV builds qualify.
+ * Phones, including the volume rocker, would need a native key-event module, which this app does not ship
+ */
+export const isClickerInputSupported = (): boolean => {
+  if (Platform.OS === 'web') return typeof document !== 'undefined';
+  if (!(Platform as any).isTV) return false;
+  const RN = require('react-native');
+  return typeof RN.useTVEventHandler === 'function' || !!RN.TVEventHandler;
+};
+
+/**
+ * Hook that turns presenter clicker, keyboard and remote key presses into next / previous commands
+ * Uses the TV event handler on native and key events on web
+ */
+export const useClickerInput = (onCommand: (command: ClickerCommand) => void, enabled: boolean) => {
+  const lastCommandAtRef = useRef(0);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  const dispatch = useCallback((command: ClickerCommand | null) => {
+    if (!command) return false;
+
+    const now = Date.now();
+    if (now - lastCommandAtRef.current >= REPEAT_GUARD_MS) {
+      lastCommandAtRef.current = now;
+      onCommandRef.current(command);
+    }
+    return true;
+  }, []);
+
+  const handleTVEvent = useCallback(
+    (evt: any) => {
+      dispatch(normalizeClickerEvent(evt));
+    },
+    [dispatch]
+  );
+
+  useTVEvent(handleTVEvent, enabled);
+
+  useEffect(() => {
+    if (!enabled || Platform.OS !== 'web' || typeof document === 'undefined') return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Leave typing in text fields alone
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      // DOM key codes differ from Android's, so only the key name is used here
+      if (dispatch(COMMANDS_BY_NAME[event.key] ?? null)) event.preventDefault();
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [enabled, dispatch]);
+};
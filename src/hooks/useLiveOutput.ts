@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useLiveOutputFeed } from '../contexts';
+import { FreeShowOutput, FreeShowShow, FreeShowSlide } from '../types';
+import { getLayoutSlides, getShowLayout, getSlideText } from '../utils/slideUtils';
+
+export interface LiveOutputState {
+  output: FreeShowOutput | null;
+  show: FreeShowShow | null;
+  layoutName: string | null;
+  slides: FreeShowSlide[];
+  slideIndex: number | null;
+  slideCount: number;
+  slideText: string;
+  nextSlideText: string;
+  isLoading: boolean;
+}
+
+/**
+ * Hook that follows what FreeShow is currently showing on its output
+ * Every caller shares the one output poll of the LiveOutputProvider
+ */
+export const useLiveOutput = (enabled: boolean = true): LiveOutputState => {
+  const { state, actions } = useLiveOutputFeed();
+  const { watch } = actions;
+
+  useEffect(() => (enabled ? watch() : undefined), [enabled, watch]);
+
+  const output = enabled ? state.output : null;
+  const show = enabled ? state.show : null;
+  const slides = getLayoutSlides(show, output?.layoutId);
+  const slideIndex = output?.slideIndex ?? null;
+  const currentSlide =
+    output?.slide || (slideIndex !== null ? slides[slideIndex] : undefined) || null;
+  const nextSlide = slideIndex !== null ? slides[slideIndex + 1] : undefined;
+
+  return {
+    output,
+    show,
+    layoutName: getShowLayout(show, output?.layoutId)?.name || null,
+    slides,
+    slideIndex,
+    slideCount: slides.length,
+    slideText: getSlideText(currentSlide),
+    nextSlideText: getSlideText(nextSlide),
+    isLoading: enabled && state.isLoading,
+  };
+};
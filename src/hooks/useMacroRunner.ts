@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFreeShowApi } from '../contexts';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { APIMacro, APIMacroStep } from '../types';
+import { isHoldOnlyAction } from '../utils/deckPresets';
+
+export interface MacroProgress {
+  macroId: string;
+  macroName: string;
+  completedSteps: number;
+  totalSteps: number;
+  status: string;
+}
+
+export interface MacroRunnerState {
+  progress: MacroProgress | null;
+  run: (macro: APIMacro) => Promise<void>;
+  abort: () => void;
+}
+
+interface ActiveRun {
+  sequence: string;
+  aborted: boolean;
+  cancelDelay?: () => void;
+}
+
+export const describeMacroStep = (step: APIMacroStep): string => step.action.replace(/_/g, ' ');
+
+// Steps are sent in batches up to the next delay, the request queue keeps each batch in order
+// Catalog steps go through the typed client, so replay policy and mirroring still apply
+const splitAtDelays = (steps: APIMacroStep[]): APIMacroStep[][] =>
+  steps.reduce<APIMacroStep[][]>(
+    (batches, step) => {
+      batches[batches.length - 1].push(step);
+      if (step.delayAfter && step.delayAfter > 0) batches.push([]);
+      return batches;
+    },
+    [[]]
+  );
+
+/**
+ * Hook that runs macros one at a time, with progress and abort
+ */
+export const useMacroRunner = (): MacroRunnerState => {
+  const api = useFreeShowApi();
+  const [progress, setProgress] = useState<MacroProgress | null>(null);
+  const activeRef = useRef<ActiveRun | null>(null);
+
+  const abort = useCallback(() => {
+    const active = activeRef.current;
+    if (!active) return;
+    active.aborted = true;
+    api.cancelSequence(active.sequence);
+    active.cancelDelay?.();
+  }, [api]);
+
+  // Don't leave a macro running in the background once its screen is gone
+  useEffect(() => abort, [abort]);
+
+  const run = useCallback(
+    async (macro: APIMacro) => {
+      if (activeRef.current) return;
+      // Macros saved before blackout was refused may still hold the step
+      const holdOnlyStep = macro.steps.find(step => isHoldOnlyAction(step.action));
+      if (holdOnlyStep) {
+        throw new Error(
+          `"${macro.name}" contains ${describeMacroStep(holdOnlyStep)}, use Hold for Blackout instead`
+        );
+      }
+
+      const active: ActiveRun = { sequence: `macro_${macro.id}_${Date.now()}`, aborted: false };
+      activeRef.current = active;
+      let completedSteps = 0;
+      const report = (status: string) =>
+        setProgress({
+          macroId: macro.id,
+          macroName: macro.name,
+          completedSteps,
+          totalSteps: macro.steps.length,
+          status,
+        });
+
+      try {
+        for (const batch of splitAtDelays(macro.steps)) {
+          if (active.aborted) break;
+          if (batch.length === 0) continue;
+
+          report(describeMacroStep(batch[0]));
+          await Promise.all(
+            batch.map((step, index) =>
+              api.sendAction(step.action, step.data, active.sequence).then(
+                () => {
+                  completedSteps++;
+                  const next = batch[index + 1];
+                  report(next ? describeMacroStep(next) : 'sent');
+                },
+                error => {
+                  // Stop the rest of the batch from going out after a failed step
+                  api.cancelSequence(active.sequence);
+                  throw error;
+                }
+              )
+            )
+          );
+
+          const delay = batch[batch.length - 1].delayAfter;
+          if (delay && delay > 0 && !active.aborted) {
+            report(`waiting ${delay}s`);
+            await new Promise<void>(resolve => {
+              const timer = setTimeout(resolve, delay * 1000);
+              active.cancelDelay = () => {
+                clearTimeout(timer);
+                resolve();
+              };
+            });
+            active.cancelDelay = undefined;
+          }
+        }
+
+        ErrorLogger.info(active.aborted ? 'Macro aborted' : 'Macro completed', 'useMacroRunner', {
+          macro: macro.name,
+          completedSteps,
+          totalSteps: macro.steps.length,
+        });
+      } catch (error) {
+        if (!active.aborted) {
+          ErrorLogger.error(
+            `Macro "${macro.name}" failed`,
+            'useMacroRunner',
+            error instanceof Error ? error : new Error(String(error)),
+            { completedSteps }
+          );
+          const failedStep = macro.steps[completedSteps];
+          throw new Error(
+            `"${macro.name}" stopped at step ${completedSteps + 1}` +
+              (failedStep ? ` (${describeMacroStep(failedStep)})` : '') +
+              `: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      } finally {
+        activeRef.current = null;
+        setProgress(null);
+      }
+    },
+    [api]
+  );
+
+  return { progress, run, abort };
+};
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { configService } from '../config/AppConfig';
+import { useConnectionState, useFreeShowApi } from '../contexts/ConnectionStateContext';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { IFreeShowApiMessage } from '../services/interfaces/IFreeShowService';
+
+export interface PolledState<T> {
+  data: T | null;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export interface PolledStateOptions<T> {
+  enabled?: boolean;
+  logContext: string;
+  // Apply state FreeShow pushes on its own, return undefined for messages that are not about it
+  onMessage?: (message: IFreeShowApiMessage, current: T | null) => T | null | undefined;
+}
+
+/**
+ * Hook that keeps a piece of FreeShow state fresh while connected
+ * Polls on the output poll interval, skips a tick while the last request is still out,
+ * and takes pushed updates in between
+ */
+export const usePolledState = <T>(
+  fetch: () => Promise<T>,
+  { enabled = true, logContext, onMessage }: PolledStateOptions<T>
+): PolledState<T> => {
+  const api = useFreeShowApi();
+  const { isConnected } = useConnectionState();
+  const [data, setData] = useState<T | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const fetchRef = useRef(fetch);
+  fetchRef.current = fetch;
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const mountedRef = useRef(true);
+  const inFlightRef = useRef(false);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (inFlightRef.current || !api.isAvailable()) return;
+    inFlightRef.current = true;
+    try {
+      const latest = await fetchRef.current();
+      if (mountedRef.current) setData(latest);
+    } catch (error) {
+      ErrorLogger.debug('Failed to poll FreeShow state', logContext, { error });
+    } finally {
+      inFlightRef.current = false;
+    }
+  }, [api, logContext]);
+
+  const active = enabled && isConnected;
+
+  useEffect(() => {
+    if (!active) {
+      setData(null);
+      return;
+    }
+
+    let cancelled = false;
+    const unsubscribe = api.onUnsolicited(message => {
+      const handle = onMessageRef.current;
+      if (!handle) return;
+      setData(current => {
+        const next = handle(message, current);
+        return next === undefined ? current : next;
+      });
+    });
+
+    setIsLoading(true);
+    refresh().finally(() => !cancelled && setIsLoading(false));
+    const interval = setInterval(refresh, configService.getNetworkConfig().outputPollInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [api, active, refresh]);
+
+  return { data, isLoading, refresh };
+};
@@ -0,0 +1,131 @@
+import { useEffect, useRef } from 'react';
+import {
+  Animated,
+  Easing,
+  GestureResponderHandlers,
+  PanResponder,
+  PanResponderGestureState,
+  Vibration,
+} from 'react-native';
+import { configService } from '../config/AppConfig';
+
+export type PresenterGesture =
+  | 'nextSlide'
+  | 'previousSlide'
+  | 'nextItem'
+  | 'previousItem'
+  | 'longPress';
+
+// A swipe has to travel this far and be mostly sideways
+const SWIPE_DISTANCE = 50;
+// Fingers can drift a little while holding a long press
+const LONG_PRESS_SLOP = 10;
+
+const VIBRATION_PATTERNS: Record<PresenterGesture, number | number[]> = {
+  nextSlide: 20,
+  previousSlide: 20,
+  // Double pulse so project item changes feel different from slide changes
+  nextItem: [0, 20, 80, 20],
+  previousItem: [0, 20, 80, 20],
+  longPress: 80,
+};
+
+const toSwipe = (
+  gestureState: PanResponderGestureState,
+  twoFinger: boolean
+): PresenterGesture | null => {
+  const { dx, dy } = gestureState;
+  if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy) * 1.5) return null;
+
+  // Swiping left pulls in what comes next, like turning a page
+  if (twoFinger) return dx < 0 ? 'nextItem' : 'previousItem';
+  return dx < 0 ? 'nextSlide' : 'previousSlide';
+};
+
+export interface PresenterGestureHandlers {
+  panHandlers: GestureResponderHandlers;
+  // Runs from 0 to 1 while a long press is held, for a fill like the hold-to-confirm buttons
+  holdProgress: Animated.Value;
+}
+
+/**
+ * Hook that recognises presenter pad gestures
+ * One finger swipes change slide, two finger swipes change project item and a long press is reported once
+ * A long press takes as long as the hold-to-confirm buttons, so a pocket tap can't trigger it
+ * Every recognised gesture buzzes, so the presenter knows it registered without looking
+ */
+export const usePresenterGestures = (
+  onGesture: (gesture: PresenterGesture) => void
+): PresenterGestureHandlers => {
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+
+  const emit = (gesture: PresenterGesture) => {
+    Vibration.vibrate(VIBRATION_PATTERNS[gesture]);
+    onGestureRef.current(gesture);
+  };
+
+  const holdProgress = useRef(new Animated.Value(0)).current;
+  const holdAnimationRef = useRef<Animated.CompositeAnimation | null>(null);
+  const gestureRef = useRef({ twoFinger: false, longPressed: false });
+
+  const clearLongPress = () => {
+    if (holdAnimationRef.current) {
+      holdAnimationRef.current.stop();
+      holdAnimationRef.current = null;
+    }
+    holdProgress.setValue(0);
+  };
+
+  useEffect(() => clearLongPress, []);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        gestureRef.current = { twoFinger: false, longPressed: false };
+        clearLongPress();
+        const animation = Animated.timing(holdProgress, {
+          toValue: 1,
+          duration: configService.getNetworkConfig().holdToConfirmDuration,
+          easing: Easing.linear,
+          useNativeDriver: false,
+        });
+        holdAnimationRef.current = animation;
+        animation.start(({ finished }) => {
+          if (!finished || holdAnimationRef.current !== animation) return;
+          holdAnimationRef.current = null;
+          holdProgress.setValue(0);
+          gestureRef.current.longPressed = true;
+          emit('longPress');
+        });
+      },
+      onPanResponderMove: (_evt, gestureState) => {
+        if (gestureState.numberActiveTouches >= 2) {
+          gestureRef.current.twoFinger = true;
+        }
+        if (
+          gestureRef.current.twoFinger ||
+          Math.abs(gestureState.dx) > LONG_PRESS_SLOP ||
+          Math.abs(gestureState.dy) > LONG_PRESS_SLOP
+        ) {
+          clearLongPress();
+        }
+      },
+      onPanResponderRelease: (_evt, gestureState) => {
+        clearLongPress();
+        if (gestureRef.current.longPressed) return;
+
+        const swipe = toSwipe(gestureState, gestureRef.current.twoFinger);
+        if (swipe) emit(swipe);
+      },
+      onPanResponderTerminate: () => {
+        clearLongPress();
+      },
+    })
+  ).current;
+
+  return { panHandlers: panResponder.panHandlers, holdProgress };
+};
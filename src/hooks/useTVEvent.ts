@@ -1,5 +1,48 @@
 import { useEffect } from 'react';
 
+// Normalize various TV event shapes to a canonical string action
+export const normalizeTVEvent = (evt: any): string | null => {
+  if (!evt) return null;
+  if (evt.eventType && typeof evt.eventType === 'string') return evt.eventType;
+  if (evt.type && typeof evt.type === 'string') return evt.type;
+
+  const code = evt.eventType ?? evt.keyCode ?? evt.keycode ?? evt;
+  const num = typeof code === 'number' ? code : parseInt(code, 10);
+  if (!isNaN(num)) {
+    switch (num) {
+      case 19:
+        return 'up';
+      case 20:
+        return 'down';
+      case 21:
+        return 'left';
+      case 22:
+        return 'right';
+      case 23:
+        return 'select';
+      case 66:
+        return 'select';
+      case 4:
+        return 'back';
+      case 82:
+        return 'menu';
+      case 62:
+        return 'space';
+      case 87:
+        return 'next';
+      case 88:
+        return 'previous';
+      case 92:
+        return 'pageUp';
+      case 93:
+        return 'pageDown';
+      default:
+        return String(num);
+    }
+  }
+  return null;
+};
+
 /**
  * Cross-version TV event hook.
  * Tries to use React Native's `useTVEventHandler` hook when available.
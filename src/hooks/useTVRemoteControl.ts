@@ -0,0 +1,62 @@
+import { useCallback, useRef } from 'react';
+import { normalizeTVEvent, useTVEvent } from './useTVEvent';
+
+export type TVRemoteCommand =
+  | 'nextSlide'
+  | 'previousSlide'
+  | 'nextItem'
+  | 'previousItem'
+  | 'select'
+  | 'longSelect'
+  | 'back';
+
+// Android TV reports a held D-pad key as a stream of key downs
+const REPEAT_GUARD_MS = 200;
+
+const COMMANDS_BY_EVENT: Record<string, TVRemoteCommand> = {
+  right: 'nextSlide',
+  left: 'previousSlide',
+  down: 'nextItem',
+  up: 'previousItem',
+  select: 'select',
+  enter: 'select',
+  playPause: 'select',
+  longSelect: 'longSelect',
+  longPlayPause: 'longSelect',
+  menu: 'longSelect',
+  back: 'back',
+};
+
+/**
+ * Hook that maps TV remote keys to presenter commands
+ * left / right change slide, up / down change project item, select and long select are passed on
+ */
+export const useTVRemoteControl = (
+  onCommand: (command: TVRemoteCommand) => void,
+  enabled: boolean
+) => {
+  const lastEventRef = useRef<{ command: TVRemoteCommand | null; at: number }>({
+    command: null,
+    at: 0,
+  });
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  const handleTVEvent = useCallback((evt: any) => {
+    // Only act on key down, key up comes through as eventKeyAction 1
+    if (evt?.eventKeyAction === 1) return;
+
+    const type = normalizeTVEvent(evt);
+    const command = type ? COMMANDS_BY_EVENT[type] : undefined;
+    if (!command) return;
+
+    const now = Date.now();
+    const last = lastEventRef.current;
+    if (last.command === command && now - last.at < REPEAT_GUARD_MS) return;
+    lastEventRef.current = { command, at: now };
+
+    onCommandRef.current(command);
+  }, []);
+
+  useTVEvent(handleTVEvent, enabled);
+};
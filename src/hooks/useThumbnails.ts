@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { configService } from '../config/AppConfig';
+import { useConnectionState, useFreeShowApi } from '../contexts';
+import { FreeShowApiClient } from '../services/FreeShowApiClient';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { LRUCache } from '../utils/LRUCache';
+
+// Shared by every slide list so scrolling back never refetches, null means FreeShow had no image
+let thumbnailCache: LRUCache<string, string | null> | null = null;
+const inFlight = new Map<string, Promise<string | null>>();
+
+const getThumbnailCache = () => {
+  if (!thumbnailCache) {
+    thumbnailCache = new LRUCache(configService.getNetworkConfig().thumbnailCacheSize);
+  }
+  return thumbnailCache;
+};
+
+const fetchSlideThumbnail = (
+  api: FreeShowApiClient,
+  key: string,
+  showId: string,
+  index: number,
+  layoutId?: string
+): Promise<string | null> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = api
+    .getSlideThumbnail(showId, index, layoutId)
+    .then(image => {
+      getThumbnailCache().set(key, image);
+      return image;
+    })
+    .catch(error => {
+      // Not cached, so the next render tries again, this includes replies meant for another slide
+      ErrorLogger.debug('Failed to load slide thumbnail', 'useThumbnails', { key, error });
+      return null;
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, request);
+  return request;
+};
+
+/**
+ * Hook that loads the preview image of one slide, through the shared LRU cache
+ */
+export const useSlideThumbnail = (
+  showId: string | null | undefined,
+  index: number | null | undefined,
+  layoutId?: string
+): string | null => {
+  const api = useFreeShowApi();
+  const { connectionHost } = useConnectionState();
+
+  const key =
+    showId && index !== null && index !== undefined
+      ? `${connectionHost}|${showId}|${layoutId ?? ''}|${index}`
+      : null;
+  const [uri, setUri] = useState<string | null>(() =>
+    key ? (getThumbnailCache().get(key) ?? null) : null
+  );
+
+  useEffect(() => {
+    if (!key || !showId || index === null || index === undefined) {
+      setUri(null);
+      return;
+    }
+
+    const cached = getThumbnailCache().get(key);
+    if (cached !== undefined) {
+      setUri(cached);
+      return;
+    }
+
+    setUri(null);
+    if (!api.isAvailable()) return;
+
+    let cancelled = false;
+    fetchSlideThumbnail(api, key, showId, index, layoutId).then(image => {
+      if (!cancelled) setUri(image);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, key, showId, index, layoutId]);
+
+  return uri;
+};
+
+/**
+ * Hook that follows a low rate capture of the main output
+ */
+export const useOutputThumbnail = (enabled: boolean = true): string | null => {
+  const api = useFreeShowApi();
+  const { isConnected } = useConnectionState();
+  const [uri, setUri] = useState<string | null>(null);
+
+  const active = enabled && isConnected;
+
+  useEffect(() => {
+    if (!active) {
+      setUri(null);
+      return;
+    }
+
+    let cancelled = false;
+    let inFlightCapture = false;
+    const pollCapture = async () => {
+      if (inFlightCapture || !api.isAvailable()) return;
+      inFlightCapture = true;
+      try {
+        const image = await api.getOutputThumbnail();
+        if (!cancelled) setUri(image);
+      } catch (error) {
+        ErrorLogger.debug('Failed to capture output thumbnail', 'useOutputThumbnail', { error });
+      } finally {
+        inFlightCapture = false;
+      }
+    };
+
+    pollCapture();
+    const interval = setInterval(
+      pollCapture,
+      configService.getNetworkConfig().outputThumbnailInterval
+    );
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [api, active]);
+
+  return uri;
+};
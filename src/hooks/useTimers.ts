@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { useFreeShowApi } from '../contexts';
+import { applyActiveTimers, decodeTimers } from '../services/FreeShowApiClient';
+import { IFreeShowApiMessage } from '../services/interfaces/IFreeShowService';
+import { FreeShowTimer } from '../types';
+import { usePolledState } from './usePolledState';
+
+export interface TimersState {
+  timers: FreeShowTimer[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const TIMER_LIST_ACTIONS = ['get_timers', 'timers'];
+const ACTIVE_TIMERS_ACTION = 'active_timers';
+
+const applyTimerMessage = (
+  message: IFreeShowApiMessage,
+  current: FreeShowTimer[] | null
+): FreeShowTimer[] | undefined => {
+  const action = message.action?.toLowerCase();
+  if (!action) return undefined;
+  if (TIMER_LIST_ACTIONS.includes(action)) {
+    return decodeTimers(message.data);
+  }
+  // Running state only, names and types come from the timer list
+  if (action === ACTIVE_TIMERS_ACTION && current) {
+    return applyActiveTimers(current, message.data);
+  }
+  return undefined;
+};
+
+/**
+ * Hook that mirrors FreeShow's timers
+ * Remaining time always comes from FreeShow, either pushed as active timers or from polling
+ */
+export const useTimers = (): TimersState => {
+  const api = useFreeShowApi();
+  const fetchTimers = useCallback(() => api.getTimers(), [api]);
+  const { data, isLoading, refresh } = usePolledState(fetchTimers, {
+    logContext: 'useTimers',
+    onMessage: applyTimerMessage,
+  });
+
+  return { timers: data ?? [], isLoading, refresh };
+};
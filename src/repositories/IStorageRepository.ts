@@ -28,6 +28,11 @@ export const StorageKeys = {
   CONNECTION_SESSIONS: 'connection_sessions',
   DISCOVERY_CACHE: 'discovery_cache',
   
+  // Show domain
+  RECENT_SHOWS: 'recent_shows',
+  STAGE_MESSAGES: 'stage_messages',
+  MACROS: 'macros',
+  
   // Future domains can be added here
   // Show domain: SHOW_DATA, SLIDE_CACHE, etc.
   // Media domain: MEDIA_CACHE, THUMBNAILS, etc.
@@ -1,5 +1,6 @@
 import { configService } from '../config/AppConfig';
 import { ErrorLogger } from '../services/ErrorLogger';
+import { APIDeck, APIMacro } from '../types';
 import { storageRepository } from './AsyncStorageRepository';
 import { IStorageRepository, StorageKeys } from './IStorageRepository';
 
@@ -14,6 +15,45 @@ export interface AppSettings {
   keepAwake: boolean;
 }
 
+export type ScreenOrientationPreference = 'auto' | 'portrait' | 'landscape';
+
+// 'inherit' follows the global setting, 'on' and 'off' override it while the host is connected
+export type KeepAwakeOverride = 'inherit' | 'on' | 'off';
+
+// Per-connection overrides, a missing field means the global setting applies
+export interface ConnectionProfile {
+  autoLaunchInterface?: AppSettings['autoLaunchInterface'];
+  autoLaunchFullscreen?: boolean;
+  keepAwake?: KeepAwakeOverride;
+  orientation?: ScreenOrientationPreference;
+  connectionTimeout?: number; // in seconds
+}
+
+// App settings with the profile of a connection applied on top
+export interface EffectiveSettings extends AppSettings {
+  orientation: ScreenOrientationPreference;
+}
+
+export const applyConnectionProfile = (
+  appSettings: AppSettings,
+  profile?: ConnectionProfile | null
+): EffectiveSettings => {
+  const { keepAwake, ...overrides } = profile ?? {};
+  return {
+    ...appSettings,
+    orientation: 'auto',
+    ...overrides,
+    keepAwake: !keepAwake || keepAwake === 'inherit' ? appSettings.keepAwake : keepAwake === 'on',
+  };
+};
+
+// Profiles saved before keep-awake could be switched off stored it as a boolean
+const migrateConnectionProfile = (profile: ConnectionProfile): ConnectionProfile => {
+  const keepAwake: unknown = profile.keepAwake;
+  if (typeof keepAwake !== 'boolean') return profile;
+  return { ...profile, keepAwake: keepAwake ? 'on' : 'inherit' };
+};
+
 export interface ConnectionHistory {
   id: string; // Now just the IP address
   host: string; // IP address
@@ -28,6 +68,15 @@ export interface ConnectionHistory {
     output: number;
     api: number; // Include API port as well
   };
+  apiDeck?: APIDeck; // Button deck shown in API mode for this connection
+  profile?: ConnectionProfile;
+}
+
+export interface StageMessage {
+  id: string;
+  text: string;
+  saved: boolean; // Saved messages are kept, the rest is history trimmed to a maximum
+  lastUsed: string; // ISO date string
 }
 
 /**
@@ -107,7 +156,9 @@ export class SettingsRepository {
       const history = await this.storage.getObject<ConnectionHistory[]>(
         StorageKeys.CONNECTION_HISTORY
       );
-      return history || [];
+      return (history || []).map(item =>
+        item.profile ? { ...item, profile: migrateConnectionProfile(item.profile) } : item
+      );
     } catch (error) {
       ErrorLogger.error(
         'Failed to get connection history',
@@ -280,6 +331,98 @@ export class SettingsRepository {
     }
   }
 
+  async getConnectionDeck(host: string): Promise<APIDeck | null> {
+    const history = await this.getConnectionHistory();
+    return history.find(item => item.host === host)?.apiDeck ?? null;
+  }
+
+  async setConnectionDeck(host: string, apiDeck: APIDeck): Promise<void> {
+    try {
+      const history = await this.getConnectionHistory();
+      const existingIndex = history.findIndex(item => item.host === host);
+
+      if (existingIndex < 0) {
+        throw new Error(`Connection with host ${host} not found in history`);
+      }
+
+      history[existingIndex] = { ...history[existingIndex], apiDeck };
+      await this.setConnectionHistory(history);
+      ErrorLogger.info('Updated connection button deck', this.logContext, {
+        host,
+        buttons: apiDeck.buttons.length,
+      });
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to update connection button deck',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  async clearConnectionDeck(host: string): Promise<void> {
+    try {
+      const history = await this.getConnectionHistory();
+      const updatedHistory = history.map(item => {
+        if (item.host !== host) return item;
+        const { apiDeck: _apiDeck, ...rest } = item;
+        return rest;
+      });
+      await this.setConnectionHistory(updatedHistory);
+      ErrorLogger.info('Reset connection button deck', this.logContext, { host });
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to reset connection button deck',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  // Connection profiles
+  async getConnectionProfile(host: string): Promise<ConnectionProfile | null> {
+    const history = await this.getConnectionHistory();
+    return history.find(item => item.host === host)?.profile ?? null;
+  }
+
+  async setConnectionProfile(host: string, profile: ConnectionProfile): Promise<void> {
+    try {
+      const history = await this.getConnectionHistory();
+      const existingIndex = history.findIndex(item => item.host === host);
+
+      if (existingIndex < 0) {
+        throw new Error(`Connection with host ${host} not found in history`);
+      }
+
+      // Drop unset overrides so the stored profile only holds what differs from the globals
+      const overrides = Object.fromEntries(
+        Object.entries(profile).filter(([, value]) => value !== undefined)
+      ) as ConnectionProfile;
+
+      history[existingIndex] = { ...history[existingIndex], profile: overrides };
+      await this.setConnectionHistory(history);
+      ErrorLogger.info('Updated connection profile', this.logContext, { host, profile: overrides });
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to update connection profile',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Global app settings with the profile of the given connection applied on top
+   */
+  async getEffectiveSettings(host?: string | null): Promise<EffectiveSettings> {
+    const appSettings = await this.getAppSettings();
+    const profile = host ? await this.getConnectionProfile(host) : null;
+    return applyConnectionProfile(appSettings, profile);
+  }
+
   async removeFromConnectionHistory(id: string): Promise<void> {
     try {
       const history = await this.getConnectionHistory();
@@ -331,12 +474,166 @@ export class SettingsRepository {
     }
   }
 
+  // Recently used shows per host, most recent first, so another machine's show ids never show up
+  async getRecentShows(host: string): Promise<string[]> {
+    return (await this.getRecentShowsByHost())[host] ?? [];
+  }
+
+  async addRecentShow(host: string, showId: string): Promise<string[]> {
+    try {
+      const recentByHost = await this.getRecentShowsByHost();
+      const maxRecent = configService.getStorageConfig().maxRecentShows;
+      const recent = recentByHost[host] ?? [];
+      const updated = [showId, ...recent.filter(id => id !== showId)].slice(0, maxRecent);
+      await this.storage.setObject(StorageKeys.RECENT_SHOWS, {
+        ...recentByHost,
+        [host]: updated,
+      });
+      return updated;
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to add recent show',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  private async getRecentShowsByHost(): Promise<Record<string, string[]>> {
+    try {
+      const recent = await this.storage.getObject<Record<string, string[]> | string[]>(
+        StorageKeys.RECENT_SHOWS
+      );
+      // Lists saved before they were kept per host can't be told apart, start those over
+      return recent && !Array.isArray(recent) ? recent : {};
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to get recent shows',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return {};
+    }
+  }
+
+  // Stage messages, most recently used first
+  async getStageMessages(): Promise<StageMessage[]> {
+    try {
+      const messages = await this.storage.getObject<StageMessage[]>(StorageKeys.STAGE_MESSAGES);
+      return messages || [];
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to get stage messages',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return [];
+    }
+  }
+
+  async setStageMessages(messages: StageMessage[]): Promise<void> {
+    try {
+      await this.storage.setObject(StorageKeys.STAGE_MESSAGES, messages);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to set stage messages',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  async recordStageMessage(text: string): Promise<StageMessage[]> {
+    const messages = await this.getStageMessages();
+    const existing = messages.find(message => message.text === text);
+    const entry: StageMessage = {
+      id: existing?.id ?? Date.now().toString(),
+      text,
+      saved: existing?.saved ?? false,
+      lastUsed: new Date().toISOString(),
+    };
+
+    const maxHistory = configService.getStorageConfig().maxStageMessageHistory;
+    let historyCount = 0;
+    const updated = [entry, ...messages.filter(message => message.id !== entry.id)].filter(
+      message => message.saved || ++historyCount <= maxHistory
+    );
+
+    await this.setStageMessages(updated);
+    return updated;
+  }
+
+  async setStageMessageSaved(id: string, saved: boolean): Promise<StageMessage[]> {
+    const messages = await this.getStageMessages();
+    const updated = messages.map(message => (message.id === id ? { ...message, saved } : message));
+    await this.setStageMessages(updated);
+    return updated;
+  }
+
+  async removeStageMessage(id: string): Promise<StageMessage[]> {
+    const messages = await this.getStageMessages();
+    const updated = messages.filter(message => message.id !== id);
+    await this.setStageMessages(updated);
+    return updated;
+  }
+
+  // API macros
+  async getMacros(): Promise<APIMacro[]> {
+    try {
+      const macros = await this.storage.getObject<APIMacro[]>(StorageKeys.MACROS);
+      return macros || [];
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to get macros',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return [];
+    }
+  }
+
+  async setMacros(macros: APIMacro[]): Promise<void> {
+    try {
+      await this.storage.setObject(StorageKeys.MACROS, macros);
+      ErrorLogger.debug(`Updated macros with ${macros.length} entries`, this.logContext);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to set macros',
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  async saveMacro(macro: APIMacro): Promise<APIMacro[]> {
+    const macros = await this.getMacros();
+    const exists = macros.some(item => item.id === macro.id);
+    const updated = exists
+      ? macros.map(item => (item.id === macro.id ? macro : item))
+      : [...macros, macro];
+    await this.setMacros(updated);
+    return updated;
+  }
+
+  async removeMacro(id: string): Promise<APIMacro[]> {
+    const macros = await this.getMacros();
+    const updated = macros.filter(macro => macro.id !== id);
+    await this.setMacros(updated);
+    return updated;
+  }
+
   // Cleanup and maintenance
   async clearAllData(): Promise<void> {
     try {
       await this.storage.removeItem(StorageKeys.APP_SETTINGS);
       await this.storage.removeItem(StorageKeys.CONNECTION_HISTORY);
       await this.storage.removeItem(StorageKeys.USER_PREFERENCES);
+      await this.storage.removeItem(StorageKeys.RECENT_SHOWS);
+      await this.storage.removeItem(StorageKeys.STAGE_MESSAGES);
+      await this.storage.removeItem(StorageKeys.MACROS);
       ErrorLogger.info('Cleared all settings data', this.logContext);
     } catch (error) {
       ErrorLogger.error(
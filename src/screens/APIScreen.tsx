@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Modal,
@@ -7,21 +7,61 @@ import {
   StyleSheet,
   Text,
   TextInput,
-  TouchableOpacity,
   TouchableWithoutFeedback,
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { io, Socket } from 'socket.io-client';
+import ButtonDeck from '../components/ButtonDeck';
+import ClearLayersPanel from '../components/ClearLayersPanel';
+import ConnectionHealthBanner from '../components/ConnectionHealthBanner';
 import ErrorModal from '../components/ErrorModal';
+import FocusableTouchable from '../components/FocusableTouchable';
+import MacroPanel from '../components/MacroPanel';
+import NowShowingPanel from '../components/NowShowingPanel';
+import OutputSafetyBanner from '../components/OutputSafetyBanner';
+import OutputSafetyControls from '../components/OutputSafetyControls';
 import ShowSwitcher from '../components/ShowSwitcher';
+import SlidePreviewPanel from '../components/SlidePreviewPanel';
+import TVRemoteMode from '../components/TVRemoteMode';
 import { configService } from '../config/AppConfig';
-import { useConnection } from '../contexts';
+import { useConnection, useFreeShowApi } from '../contexts';
+import { useIsTV } from '../hooks/useIsTV';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { useMacroRunner } from '../hooks/useMacroRunner';
+import { settingsRepository } from '../repositories';
 import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowApiError, isDroppedOffline } from '../services/FreeShowApiClient';
 import { FreeShowTheme } from '../theme/FreeShowTheme';
-import { ShowOption } from '../types';
+import {
+  APIDeck,
+  APIDeckButton,
+  APIMacro,
+  FreeShowOutputLayer,
+  FreeShowShow,
+  ShowOption,
+} from '../types';
+import { createDeckFromPreset, DEFAULT_PRESET_ID, isHoldOnlyAction } from '../utils/deckPresets';
 import { getNavigationLayoutInfo } from '../utils/navigationUtils';
 
+// Native panels reachable from API mode
+const API_PANELS: {
+  route: string;
+  title: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}[] = [
+  { route: 'Slides', title: 'Slides', icon: 'albums', color: '#8B5CF6' },
+  { route: 'PresenterPad', title: 'Presenter Pad', icon: 'hand-left', color: '#F0008C' },
+  { route: 'Projects', title: 'Projects', icon: 'folder-open', color: '#007bff' },
+  { route: 'Shows', title: 'Show Library', icon: 'library', color: '#28a745' },
+  { route: 'Scripture', title: 'Scripture', icon: 'book', color: '#17a2b8' },
+  { route: 'Timers', title: 'Timers', icon: 'timer', color: '#fd7e14' },
+  { route: 'Audio', title: 'Audio', icon: 'musical-notes', color: '#e83e8c' },
+  { route: 'Overlays', title: 'Overlays', icon: 'layers', color: '#20c997' },
+  { route: 'StageMessages', title: 'Stage Messages', icon: 'chatbox-ellipses', color: '#6f42c1' },
+  { route: 'Outputs', title: 'Outputs', icon: 'tv', color: '#ffc107' },
+];
+
 interface APIScreenProps {
   route: {
     params?: {
@@ -34,21 +74,30 @@ interface APIScreenProps {
 
 const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
   const { state } = useConnection();
-  const { connectionHost, isConnected, currentShowPorts } = state;
+  const api = useFreeShowApi();
+  const { connectionHost, isConnected, connectionHealth, currentShowPorts } = state;
   const { title = 'FreeShow Remote' } = route.params || {};
   const { shouldSkipSafeArea } = getNavigationLayoutInfo();
   const SafeAreaWrapper = shouldSkipSafeArea ? View : SafeAreaView;
 
   // State management
-  const [socketConnected, setSocketConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  // Short-lived note about a command that was queued or dropped while reconnecting
+  const [commandNotice, setCommandNotice] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [canRestore, setCanRestore] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [deck, setDeck] = useState<APIDeck>(() => createDeckFromPreset(DEFAULT_PRESET_ID));
+  const [macros, setMacros] = useState<APIMacro[]>([]);
+  const macroRunner = useMacroRunner();
+  const isTV = useIsTV();
+  const [showTVRemote, setShowTVRemote] = useState(false);
+  const [isScreenFocused, setIsScreenFocused] = useState(true);
 
   // Advanced mode state
   const [customCommand, setCustomCommand] = useState('');
   const [apiResponse, setApiResponse] = useState<string>('');
-  const [shows, setShows] = useState<any[]>([]);
+  const [shows, setShows] = useState<FreeShowShow[]>([]);
 
   // Fullscreen state
   const [lastTap, setLastTap] = useState<number | null>(null);
@@ -56,9 +105,6 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
   const [showFullscreenHint, setShowFullscreenHint] = useState(false);
   const DOUBLE_TAP_DELAY = configService.getNetworkConfig().doubleTapDelay;
 
-  const socketRef = useRef<Socket | null>(null);
-  const connectionErrorTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const hasShownErrorRef = useRef<boolean>(false);
   const [errorModal, setErrorModal] = useState<{
     visible: boolean;
     title: string;
@@ -71,17 +117,43 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
     onRetry: undefined,
   });
 
+  // Mirror everything FreeShow sends into the Advanced response view
   useEffect(() => {
-    if (isConnected && connectionHost) {
-      connectWebSocket();
-    } else {
-      disconnectWebSocket();
+    if (!isConnected) return;
+
+    return api.onMessage(message => {
+      ErrorLogger.debug('API Response received', 'APIScreen', { message });
+      setApiResponse(JSON.stringify(message.data, null, 2));
+    });
+  }, [api, isConnected]);
+
+  // Load this connection's button deck and the macros, again whenever we come back from an editor
+  useEffect(() => {
+    if (!connectionHost) return;
+
+    const loadControls = () => {
+      settingsRepository.getConnectionDeck(connectionHost).then(saved => {
+        setDeck(saved ?? createDeckFromPreset(DEFAULT_PRESET_ID));
+      });
+      settingsRepository.getMacros().then(setMacros);
+    };
+
+    loadControls();
+    if (typeof navigation?.addListener === 'function') {
+      return navigation.addListener('focus', loadControls);
     }
+  }, [connectionHost, navigation]);
 
+  // Only capture output previews while this screen is on top
+  useEffect(() => {
+    if (typeof navigation?.addListener !== 'function') return;
+    const unsubscribeFocus = navigation.addListener('focus', () => setIsScreenFocused(true));
+    const unsubscribeBlur = navigation.addListener('blur', () => setIsScreenFocused(false));
     return () => {
-      disconnectWebSocket();
+      unsubscribeFocus();
+      unsubscribeBlur();
     };
-  }, [isConnected, connectionHost]);
+  }, [navigation]);
 
   // Show fullscreen hint when entering fullscreen
   useEffect(() => {
@@ -105,6 +177,22 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
 
   // Check if API is available
   const isApiAvailable = currentShowPorts?.api && currentShowPorts.api > 0;
+  // Follows the health events and stays true while reconnecting, commands then go through
+  // the offline buffer
+  const [apiConnected, setApiConnected] = useState(false);
+  useEffect(() => {
+    setApiConnected(isConnected && (api.isAvailable() || api.isReconnecting()));
+  }, [api, isConnected, connectionHealth]);
+  const live = useLiveOutput(!!isApiAvailable);
+
+  useEffect(() => {
+    if (!commandNotice) return;
+    const timer = setTimeout(
+      () => setCommandNotice(null),
+      configService.getNetworkConfig().fullscreenHintDuration
+    );
+    return () => clearTimeout(timer);
+  }, [commandNotice]);
 
   const handleToggleFullScreen = () => {
     setIsFullScreen(!isFullScreen);
@@ -135,165 +223,31 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
     }
   };
 
-  const connectWebSocket = async () => {
-    if (!connectionHost) return;
-
-    // If API is not available, don't try to connect
-    if (!isApiAvailable) {
-      ErrorLogger.info('API not available - interface-only mode', 'APIScreen');
-      setSocketConnected(false);
-      return;
-    }
-
-    try {
-      hasShownErrorRef.current = false;
-      ErrorLogger.info('Connecting to FreeShow WebSocket API', 'APIScreen');
-
-      if (connectionErrorTimeoutRef.current) {
-        clearTimeout(connectionErrorTimeoutRef.current);
-      }
-
-      if (socketRef.current) {
-        socketRef.current.disconnect();
-      }
-
-      const socketUrl = `http://${connectionHost}:${currentShowPorts.api}`;
-      socketRef.current = io(socketUrl, {
-        transports: ['websocket'],
-        timeout: configService.getNetworkConfig().connectionTimeout,
-        reconnection: true,
-        reconnectionAttempts: 5,
-        reconnectionDelay: 2000,
-      });
-
-      socketRef.current.on('connect', () => {
-        ErrorLogger.info('FreeShow Remote connected successfully', 'APIScreen');
-        setSocketConnected(true);
-
-        if (connectionErrorTimeoutRef.current) {
-          clearTimeout(connectionErrorTimeoutRef.current);
-        }
-        hasShownErrorRef.current = false;
-      });
-
-      socketRef.current.on('disconnect', reason => {
-        ErrorLogger.info('FreeShow Remote disconnected', 'APIScreen', { reason });
-        setSocketConnected(false);
-      });
-
-      socketRef.current.on('connect_error', error => {
-        ErrorLogger.error('WebSocket connection error', 'APIScreen', error);
-
-        if (!hasShownErrorRef.current) {
-          connectionErrorTimeoutRef.current = setTimeout(() => {
-            if (!socketConnected && !hasShownErrorRef.current) {
-              hasShownErrorRef.current = true;
-              setErrorModal({
-                visible: true,
-                title: 'Connection Failed',
-                message: `Cannot connect to FreeShow:\n\n${error.message}\n\nPlease check:\n• FreeShow is running\n• WebSocket/REST API is enabled\n• Port ${configService.getNetworkConfig().defaultPort} is accessible`,
-                onRetry: () => {
-                  hasShownErrorRef.current = false;
-                  setErrorModal({ visible: false, title: '', message: '' });
-                  connectWebSocket();
-                },
-              });
-            }
-          }, 3000);
-        }
-      });
-
-      socketRef.current.on('data', response => {
-        handleApiResponse(response);
-      });
-    } catch (error) {
-      ErrorLogger.error(
-        'Failed to setup WebSocket connection',
-        'APIScreen',
-        error instanceof Error ? error : new Error(String(error))
-      );
-      if (!hasShownErrorRef.current) {
-        hasShownErrorRef.current = true;
-        setErrorModal({
-          visible: true,
-          title: 'Setup Failed',
-          message: `Failed to setup connection: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
-      }
-    }
-  };
-
-  const disconnectWebSocket = () => {
-    if (connectionErrorTimeoutRef.current) {
-      clearTimeout(connectionErrorTimeoutRef.current);
-    }
-
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-      socketRef.current = null;
-    }
-    setSocketConnected(false);
-    hasShownErrorRef.current = false;
-  };
-
-  const handleApiResponse = (response: any) => {
-    try {
-      let data;
-      if (typeof response === 'string') {
-        try {
-          data = JSON.parse(response);
-        } catch {
-          data = response;
-        }
-      } else {
-        data = response;
-      }
-
-      ErrorLogger.debug('API Response received', 'APIScreen', { data });
-      setApiResponse(JSON.stringify(data, null, 2));
-
-      // Handle shows data for advanced mode
-      if (data && typeof data === 'object' && isShowsData(data)) {
-        const showsList: any[] = [];
-        for (const [showId, showData] of Object.entries(data)) {
-          if (showData && typeof showData === 'object') {
-            showsList.push({
-              id: showId,
-              name: (showData as any).name || showId,
-            });
-          }
-        }
-        setShows(showsList);
-      }
-    } catch (error) {
-      ErrorLogger.error(
-        'Error parsing API response',
-        'APIScreen',
-        error instanceof Error ? error : new Error(String(error))
-      );
-      setApiResponse(`Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  const showCommandError = (action: string, error: unknown) => {
+    setErrorModal({
+      visible: true,
+      title: 'Command Failed',
+      message:
+        error instanceof FreeShowApiError
+          ? `Failed to execute "${action}":\n\n${error.message}`
+          : `Failed to execute "${action}"`,
+    });
   };
 
-  const isShowsData = (data: any): boolean => {
-    if (!data || typeof data !== 'object') return false;
-    const firstKey = Object.keys(data)[0];
-    if (!firstKey) return false;
-    const firstItem = data[firstKey];
-    return (
-      firstItem &&
-      (Object.prototype.hasOwnProperty.call(firstItem, 'name') ||
-        Object.prototype.hasOwnProperty.call(firstItem, 'slides') ||
-        Object.prototype.hasOwnProperty.call(firstItem, 'category'))
-    );
+  const showSafetyError = (message: string) => {
+    setErrorModal({
+      visible: true,
+      title: 'Output Safety',
+      message,
+    });
   };
 
-  const sendApiCommand = async (
+  const runApiCommand = async (
     action: string,
-    data: any = {},
+    command: () => Promise<unknown>,
     showAlert: boolean = true
   ): Promise<void> => {
-    if (!connectionHost || !socketRef.current || !socketRef.current.connected) {
+    if (!apiConnected) {
       if (showAlert) {
         setErrorModal({
           visible: true,
@@ -304,71 +258,119 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
       return;
     }
 
+    // Commands sent while reconnecting are either buffered or dropped, say which
+    const queued = api.isReconnecting();
+    const label = action.replace(/_/g, ' ');
+
     try {
       setIsConnecting(true);
-      const command = { action, ...data };
-      ErrorLogger.debug('Sending API command', 'APIScreen', { command });
-      socketRef.current.emit('data', JSON.stringify(command));
+      await command();
+      if (queued) {
+        setCommandNotice(`${label} queued, it is sent once FreeShow is back`);
+      }
     } catch (error) {
+      if (isDroppedOffline(error)) {
+        setCommandNotice(`${label} was not sent while reconnecting`);
+        return;
+      }
       ErrorLogger.error(
         'API command failed',
         'APIScreen',
         error instanceof Error ? error : new Error(String(error))
       );
       if (showAlert) {
-        setErrorModal({
-          visible: true,
-          title: 'Command Failed',
-          message: `Failed to execute "${action}"`,
-        });
+        showCommandError(action, error);
       }
     } finally {
       setIsConnecting(false);
     }
   };
 
+  const handleLoadShows = () =>
+    runApiCommand(
+      'get_shows',
+      async () => {
+        const loadedShows = await api.getShows();
+        setShows(loadedShows);
+      },
+      false
+    );
+
+  const handleLoadProjects = () => runApiCommand('get_projects', () => api.getProjects(), false);
+
   // Core remote functions
-  const handleNextSlide = () => sendApiCommand('next_slide');
-  const handlePreviousSlide = () => sendApiCommand('previous_slide');
-  const handleNextProject = () => sendApiCommand('next_project_item');
-  const handlePreviousProject = () => sendApiCommand('previous_project_item');
-  const handleClearAll = () => sendApiCommand('clear_all');
+  const handleDeckButton = (button: APIDeckButton) => {
+    // Blackout has to go through the hold-to-confirm control, so the banner and restore follow it
+    if (isHoldOnlyAction(button.action)) {
+      setCommandNotice('Use Hold for Blackout, deck buttons cannot black out the outputs');
+      return;
+    }
+    return runApiCommand(button.action, async () => {
+      await api.sendAction(button.action, button.data);
+      // Deck buttons that clear the output can be undone from the Clear Layers restore
+      if (button.action.startsWith('clear_')) setCanRestore(true);
+    });
+  };
+
+  const handleRunMacro = (macro: APIMacro) => {
+    if (!apiConnected) return;
+    macroRunner.run(macro).catch(error => {
+      setErrorModal({
+        visible: true,
+        title: 'Macro Failed',
+        message: error instanceof Error ? error.message : `"${macro.name}" failed`,
+      });
+    });
+  };
+
+  const handleClearAll = () =>
+    runApiCommand('clear_all', () => api.clearAll().then(() => setCanRestore(true)));
+
+  const handleClearLayer = (layer: FreeShowOutputLayer) =>
+    runApiCommand(`clear ${layer}`, () => api.clearLayer(layer).then(() => setCanRestore(true)));
+
+  const handleRestoreOutput = () =>
+    runApiCommand('restore_output', () => api.restoreOutput().then(() => setCanRestore(false)));
 
   // Advanced functions
   const handleCustomCommand = () => {
     if (!customCommand.trim()) return;
 
+    let action = customCommand.trim();
+    let data: Record<string, any> = {};
     try {
       const parsed = JSON.parse(customCommand);
       if (parsed.action) {
-        sendApiCommand(parsed.action, parsed.data || {}, false);
-      } else {
-        sendApiCommand(customCommand.trim(), {}, false);
+        const { action: parsedAction, data: parsedData, ...rest } = parsed;
+        action = parsedAction;
+        data = parsedData || rest;
       }
     } catch {
-      sendApiCommand(customCommand.trim(), {}, false);
+      // Not JSON - treat the input as a bare action name
     }
+
+    runApiCommand(action, () => api.sendRaw(action, data), false);
   };
 
   if (!isConnected) {
     return (
       <SafeAreaWrapper style={styles.container}>
         <View style={styles.header}>
-          <TouchableOpacity style={styles.closeButton} onPress={() => navigation.goBack()}>
+          <FocusableTouchable style={styles.closeButton} onPress={() => navigation.goBack()}>
             <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
-          </TouchableOpacity>
+          </FocusableTouchable>
           <Text style={styles.title}>{title}</Text>
           <View style={styles.placeholder} />
         </View>
         <View style={styles.centerContainer}>
           <Ionicons name="wifi-outline" size={64} color={FreeShowTheme.colors.textSecondary} />
           <Text style={styles.errorText}>Not connected to FreeShow</Text>
-          <TouchableOpacity
+          <FocusableTouchable
             style={styles.connectButton}
             onPress={() => navigation.navigate('Connect')}
           >
             <Text style={styles.connectButtonText}>Go to Connect</Text>
-          </TouchableOpacity>
+          </FocusableTouchable>
         </View>
       </SafeAreaWrapper>
     );
@@ -382,9 +384,9 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
         {...(!shouldSkipSafeArea && { edges: ['top', 'left', 'right'] })}
       >
         <View style={styles.header}>
-          <TouchableOpacity style={styles.closeButton} onPress={() => navigation.goBack()}>
+          <FocusableTouchable style={styles.closeButton} onPress={() => navigation.goBack()}>
             <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
-          </TouchableOpacity>
+          </FocusableTouchable>
 
           {connectionHost ? (
             <ShowSwitcher
@@ -408,12 +410,12 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
             The API interface is disabled in your current connection. To use API features, enable
             the API port in FreeShow and reconnect.
           </Text>
-          <TouchableOpacity
+          <FocusableTouchable
             style={styles.connectButton}
             onPress={() => navigation.navigate('Connect')}
           >
             <Text style={styles.connectButtonText}>Reconnect with API</Text>
-          </TouchableOpacity>
+          </FocusableTouchable>
         </View>
       </SafeAreaWrapper>
     );
@@ -423,9 +425,9 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
     <SafeAreaView style={styles.container}>
       {!isFullScreen && (
         <View style={styles.header}>
-          <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+          <FocusableTouchable style={styles.closeButton} onPress={handleClose}>
             <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
-          </TouchableOpacity>
+          </FocusableTouchable>
 
           {connectionHost ? (
             <ShowSwitcher
@@ -439,73 +441,143 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
             <Text style={styles.title}>{title}</Text>
           )}
 
-          <TouchableOpacity style={styles.fullScreenButton} onPress={handleToggleFullScreen}>
+          <FocusableTouchable style={styles.fullScreenButton} onPress={handleToggleFullScreen}>
             <Ionicons
               name={isFullScreen ? 'contract' : 'expand'}
               size={20}
               color={FreeShowTheme.colors.text}
             />
-          </TouchableOpacity>
+          </FocusableTouchable>
         </View>
       )}
 
+      <ConnectionHealthBanner />
+      <OutputSafetyBanner onError={showSafetyError} />
+
       <View style={styles.container}>
         <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-          {/* Slide Controls */}
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Slide Control</Text>
-            <View style={styles.controlRow}>
-              <TouchableOpacity
-                style={[styles.controlButton, styles.previousButton]}
-                onPress={handlePreviousSlide}
-                disabled={isConnecting || !socketConnected}
-              >
-                <Ionicons name="chevron-back" size={32} color="white" />
-                <Text style={styles.controlButtonText}>Previous</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.controlButton, styles.nextButton]}
-                onPress={handleNextSlide}
-                disabled={isConnecting || !socketConnected}
+          {/* TV Remote */}
+          {isTV && (
+            <View style={styles.section}>
+              <FocusableTouchable
+                style={[styles.tvRemoteButton, !apiConnected && styles.advancedButtonDisabled]}
+                onPress={() => setShowTVRemote(true)}
+                disabled={!apiConnected}
+                hasTVPreferredFocus
               >
-                <Ionicons name="chevron-forward" size={32} color="white" />
-                <Text style={styles.controlButtonText}>Next</Text>
-              </TouchableOpacity>
+                <View style={styles.advancedButtonContent}>
+                  <Ionicons name="tv" size={28} color="white" />
+                  <View style={styles.advancedButtonTextContainer}>
+                    <Text style={styles.advancedButtonTitle}>TV Remote Mode</Text>
+                    <Text style={styles.advancedButtonSubtitle}>
+                      Control slides, project items and blackout with the D-pad
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={24} color="white" />
+                </View>
+              </FocusableTouchable>
             </View>
+          )}
+
+          {/* Now Showing */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Now Showing</Text>
+            <NowShowingPanel live={live} />
+          </View>
+
+          {/* Output and slide previews */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Preview</Text>
+            <SlidePreviewPanel
+              live={live}
+              enabled={apiConnected && isScreenFocused && !showTVRemote}
+            />
           </View>
 
-          {/* Project Controls */}
+          {/* Blackout / Freeze */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Project Control</Text>
-            <View style={styles.controlRow}>
-              <TouchableOpacity
-                style={[styles.controlButton, styles.projectButton]}
-                onPress={handlePreviousProject}
-                disabled={isConnecting || !socketConnected}
+            <Text style={styles.sectionTitle}>Output Safety</Text>
+            <OutputSafetyControls
+              disabled={isConnecting || !apiConnected}
+              onError={showSafetyError}
+            />
+          </View>
+
+          {/* Panels */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Browse</Text>
+            <View style={styles.panelGrid}>
+              {API_PANELS.map(panel => (
+                <FocusableTouchable
+                  key={panel.route}
+                  style={[styles.panelTile, !apiConnected && styles.panelTileDisabled]}
+                  onPress={() => navigation.navigate(panel.route)}
+                  disabled={!apiConnected}
+                >
+                  <Ionicons name={panel.icon} size={24} color={panel.color} />
+                  <Text style={styles.panelTileText}>{panel.title}</Text>
+                </FocusableTouchable>
+              ))}
+            </View>
+          </View>
+
+          {/* Button Deck */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Controls</Text>
+              <FocusableTouchable
+                style={styles.sectionAction}
+                onPress={() => navigation.navigate('ButtonDeck')}
               >
-                <Ionicons name="folder-open" size={24} color="white" />
-                <Text style={styles.controlButtonText}>Previous Project</Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[styles.controlButton, styles.projectButton]}
-                onPress={handleNextProject}
-                disabled={isConnecting || !socketConnected}
+                <Ionicons name="create-outline" size={20} color={FreeShowTheme.colors.secondary} />
+              </FocusableTouchable>
+            </View>
+            <ButtonDeck
+              deck={deck}
+              disabled={isConnecting || !apiConnected}
+              onPress={handleDeckButton}
+            />
+          </View>
+
+          {/* Macros */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Macros</Text>
+              <FocusableTouchable
+                style={styles.sectionAction}
+                onPress={() => navigation.navigate('Macros')}
               >
-                <Ionicons name="folder" size={24} color="white" />
-                <Text style={styles.controlButtonText}>Next Project</Text>
-              </TouchableOpacity>
+                <Ionicons name="create-outline" size={20} color={FreeShowTheme.colors.secondary} />
+              </FocusableTouchable>
             </View>
+            <MacroPanel
+              macros={macros}
+              progress={macroRunner.progress}
+              disabled={!apiConnected}
+              onRun={handleRunMacro}
+              onAbort={macroRunner.abort}
+            />
+          </View>
+
+          {/* Layer Clearing */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Clear Layers</Text>
+            <ClearLayersPanel
+              layers={live.output?.layers ?? null}
+              disabled={isConnecting || !apiConnected}
+              canRestore={canRestore}
+              onClear={handleClearLayer}
+              onRestore={handleRestoreOutput}
+            />
           </View>
 
           {/* Advanced Button */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Advanced</Text>
-            <TouchableOpacity
-              style={[styles.advancedButton, !socketConnected && styles.advancedButtonDisabled]}
+            <FocusableTouchable
+              style={[styles.advancedButton, !apiConnected && styles.advancedButtonDisabled]}
               onPress={() => setShowAdvanced(true)}
-              disabled={!socketConnected}
+              disabled={!apiConnected}
             >
               <View style={styles.advancedButtonContent}>
                 <Ionicons name="settings-outline" size={28} color="white" />
@@ -515,21 +587,9 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
                 </View>
                 <Ionicons name="chevron-forward" size={24} color="white" />
               </View>
-            </TouchableOpacity>
+            </FocusableTouchable>
           </View>
         </ScrollView>
-
-        {/* Clear All - Always at bottom */}
-        <View style={styles.bottomSection}>
-          <TouchableOpacity
-            style={[styles.clearAllButton, !socketConnected && styles.clearAllButtonDisabled]}
-            onPress={handleClearAll}
-            disabled={isConnecting || !socketConnected}
-          >
-            <Ionicons name="close-circle" size={24} color="white" />
-            <Text style={styles.clearAllButtonText}>Clear All</Text>
-          </TouchableOpacity>
-        </View>
       </View>
 
       {/* Loading Overlay */}
@@ -539,6 +599,13 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
         </View>
       )}
 
+      {commandNotice && (
+        <View style={styles.commandNotice} pointerEvents="none">
+          <Ionicons name="time-outline" size={16} color={FreeShowTheme.colors.text} />
+          <Text style={styles.commandNoticeText}>{commandNotice}</Text>
+        </View>
+      )}
+
       {/* Advanced Modal */}
       <Modal
         visible={showAdvanced}
@@ -549,9 +616,9 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
         <SafeAreaView style={styles.advancedContainer}>
           <View style={styles.advancedHeader}>
             <Text style={styles.advancedTitle}>Advanced API Controls</Text>
-            <TouchableOpacity style={styles.closeButton} onPress={() => setShowAdvanced(false)}>
+            <FocusableTouchable style={styles.closeButton} onPress={() => setShowAdvanced(false)}>
               <Ionicons name="close" size={24} color={FreeShowTheme.colors.text} />
-            </TouchableOpacity>
+            </FocusableTouchable>
           </View>
 
           <ScrollView style={styles.advancedContent}>
@@ -564,11 +631,11 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
                   <View
                     style={[
                       styles.statusDot,
-                      { backgroundColor: socketConnected ? '#28a745' : '#dc3545' },
+                      { backgroundColor: apiConnected ? '#28a745' : '#dc3545' },
                     ]}
                   />
                   <Text style={styles.statusText}>
-                    {socketConnected ? 'Connected' : 'Disconnected'}
+                    {apiConnected ? 'Connected' : 'Disconnected'}
                   </Text>
                 </View>
               </View>
@@ -578,20 +645,20 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
             <View style={styles.advancedSection}>
               <Text style={styles.advancedSectionTitle}>Data Loading</Text>
               <View style={styles.advancedButtonRow}>
-                <TouchableOpacity
+                <FocusableTouchable
                   style={styles.advancedModalButton}
-                  onPress={() => sendApiCommand('get_shows', {}, false)}
-                  disabled={isConnecting || !socketConnected}
+                  onPress={handleLoadShows}
+                  disabled={isConnecting || !apiConnected}
                 >
                   <Text style={styles.advancedButtonText}>Load Shows</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
+                </FocusableTouchable>
+                <FocusableTouchable
                   style={styles.advancedModalButton}
-                  onPress={() => sendApiCommand('get_projects', {}, false)}
-                  disabled={isConnecting || !socketConnected}
+                  onPress={handleLoadProjects}
+                  disabled={isConnecting || !apiConnected}
                 >
                   <Text style={styles.advancedButtonText}>Load Projects</Text>
-                </TouchableOpacity>
+                </FocusableTouchable>
               </View>
             </View>
 
@@ -607,13 +674,13 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
                   placeholderTextColor={FreeShowTheme.colors.textSecondary}
                   multiline
                 />
-                <TouchableOpacity
+                <FocusableTouchable
                   style={[styles.sendButton, !customCommand.trim() && styles.sendButtonDisabled]}
                   onPress={handleCustomCommand}
-                  disabled={isConnecting || !customCommand.trim() || !socketConnected}
+                  disabled={isConnecting || !customCommand.trim() || !apiConnected}
                 >
                   <Ionicons name="send" size={20} color="white" />
-                </TouchableOpacity>
+                </FocusableTouchable>
               </View>
             </View>
 
@@ -630,10 +697,16 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
               <View style={styles.advancedSection}>
                 <Text style={styles.advancedSectionTitle}>Shows ({shows.length})</Text>
                 {shows.slice(0, 10).map(show => (
-                  <TouchableOpacity
+                  <FocusableTouchable
                     key={show.id}
                     style={styles.showItem}
-                    onPress={() => sendApiCommand('name_select_show', { value: show.name }, false)}
+                    onPress={() =>
+                      runApiCommand(
+                        'name_select_show',
+                        () => api.selectShowByName(show.name),
+                        false
+                      )
+                    }
                     disabled={isConnecting}
                   >
                     <Text style={styles.showItemText}>{show.name}</Text>
@@ -642,29 +715,49 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
                       size={16}
                       color={FreeShowTheme.colors.textSecondary}
                     />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 ))}
                 {shows.length > 10 && (
-                  <Text style={styles.moreItemsText}>... and {shows.length - 10} more shows</Text>
+                  <FocusableTouchable
+                    onPress={() => {
+                      setShowAdvanced(false);
+                      navigation.navigate('Shows');
+                    }}
+                  >
+                    <Text style={styles.moreItemsText}>
+                      ... and {shows.length - 10} more shows, open the show library
+                    </Text>
+                  </FocusableTouchable>
                 )}
               </View>
             )}
 
             {/* Clear All in Advanced Mode too */}
             <View style={styles.advancedSection}>
-              <TouchableOpacity
-                style={[styles.clearAllButton, !socketConnected && styles.clearAllButtonDisabled]}
+              <FocusableTouchable
+                style={[styles.clearAllButton, !apiConnected && styles.clearAllButtonDisabled]}
                 onPress={handleClearAll}
-                disabled={isConnecting || !socketConnected}
+                disabled={isConnecting || !apiConnected}
               >
                 <Ionicons name="close-circle" size={24} color="white" />
                 <Text style={styles.clearAllButtonText}>Clear All</Text>
-              </TouchableOpacity>
+              </FocusableTouchable>
             </View>
           </ScrollView>
         </SafeAreaView>
       </Modal>
 
+      <TVRemoteMode
+        visible={showTVRemote}
+        live={live}
+        canRestore={canRestore}
+        onClose={() => setShowTVRemote(false)}
+        onClearLayer={handleClearLayer}
+        onClearAll={handleClearAll}
+        onRestore={handleRestoreOutput}
+        onError={message => setErrorModal({ visible: true, title: 'TV Remote', message })}
+      />
+
       {/* Error Modal */}
       <ErrorModal
         visible={errorModal.visible}
@@ -682,7 +775,7 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
 
       {/* Fullscreen hint (tap to dismiss) */}
       {isFullScreen && showFullscreenHint && (
-        <TouchableOpacity
+        <FocusableTouchable
           style={styles.fullscreenHint}
           activeOpacity={0.85}
           onPress={() => setShowFullscreenHint(false)}
@@ -691,7 +784,7 @@ const APIScreen: React.FC<APIScreenProps> = ({ route, navigation }) => {
             <Ionicons name="information-circle" size={20} color={FreeShowTheme.colors.text} />
             <Text style={styles.hintText}>Double-tap any corner to exit fullscreen</Text>
           </View>
-        </TouchableOpacity>
+        </FocusableTouchable>
       )}
 
       {/* Double-tap corners to exit fullscreen */}
@@ -813,38 +906,38 @@ const styles = StyleSheet.create({
     color: FreeShowTheme.colors.text,
     marginBottom: FreeShowTheme.spacing.lg,
   },
-  // Control Buttons
-  controlRow: {
+  sectionHeader: {
     flexDirection: 'row',
-    gap: FreeShowTheme.spacing.lg,
+    justifyContent: 'space-between',
   },
-  controlButton: {
-    flex: 1,
+  sectionAction: {
+    padding: FreeShowTheme.spacing.xs,
+  },
+  // Panel tiles
+  panelGrid: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.md,
+  },
+  panelTile: {
+    flexGrow: 1,
+    flexBasis: '30%',
     alignItems: 'center',
     justifyContent: 'center',
-    paddingVertical: FreeShowTheme.spacing.xl,
+    paddingVertical: FreeShowTheme.spacing.lg,
     borderRadius: FreeShowTheme.borderRadius.lg,
-    gap: FreeShowTheme.spacing.sm,
-    elevation: 2,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 3.84,
-  },
-  controlButtonText: {
-    color: 'white',
-    fontSize: FreeShowTheme.fontSize.md,
-    fontWeight: '600',
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    gap: FreeShowTheme.spacing.xs,
   },
-  previousButton: {
-    backgroundColor: '#FF851B',
+  panelTileDisabled: {
+    opacity: 0.5,
   },
-  nextButton: {
-    backgroundColor: FreeShowTheme.colors.secondary,
-  },
-  projectButton: {
-    backgroundColor: '#007bff',
+  panelTileText: {
+    color: FreeShowTheme.colors.text,
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
   },
   // Advanced Button
   advancedButton: {
@@ -857,6 +950,11 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 3.84,
   },
+  tvRemoteButton: {
+    backgroundColor: FreeShowTheme.colors.secondary,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    padding: FreeShowTheme.spacing.lg,
+  },
   advancedButtonDisabled: {
     backgroundColor: '#6c757d',
     opacity: 0.6,
@@ -881,12 +979,6 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     fontSize: FreeShowTheme.fontSize.sm,
   },
-  // Bottom Section
-  bottomSection: {
-    padding: FreeShowTheme.spacing.lg,
-    borderTopWidth: 1,
-    borderTopColor: FreeShowTheme.colors.primaryLighter,
-  },
   clearAllButton: {
     backgroundColor: '#dc3545',
     flexDirection: 'row',
@@ -920,6 +1012,24 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  commandNotice: {
+    position: 'absolute',
+    left: FreeShowTheme.spacing.lg,
+    right: FreeShowTheme.spacing.lg,
+    bottom: FreeShowTheme.spacing.xl,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  },
+  commandNoticeText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.text,
+  },
   // Advanced Modal Styles
   advancedContainer: {
     flex: 1,
@@ -0,0 +1,348 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import LevelSlider from '../components/LevelSlider';
+import { useFreeShowApi } from '../contexts';
+import { useAudio } from '../hooks/useAudio';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { formatTimerSeconds } from '../utils/timerUtils';
+
+interface AudioScreenProps {
+  navigation: any;
+}
+
+// Volume changes sent while dragging are spaced out so the socket isn't flooded
+const VOLUME_SEND_INTERVAL = 150;
+
+/**
+ * Audio panel
+ * Playback of FreeShow's audio tracks and playlists, seeking and the master volume
+ */
+const AudioScreen: React.FC<AudioScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { audio, isLoading, refresh } = useAudio();
+  const [volumeOverride, setVolumeOverride] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const lastVolumeSentRef = useRef(0);
+
+  const runAudioCommand = async (description: string, command: () => Promise<void>) => {
+    try {
+      await command();
+      await refresh();
+    } catch (error) {
+      ErrorLogger.error(
+        `Failed to ${description}`,
+        'AudioScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : `Failed to ${description}`);
+    }
+  };
+
+  const handleVolumeChange = (value: number) => {
+    const volume = Math.round(value);
+    setVolumeOverride(volume);
+
+    const now = Date.now();
+    if (now - lastVolumeSentRef.current >= VOLUME_SEND_INTERVAL) {
+      lastVolumeSentRef.current = now;
+      api.setVolume(volume).catch(error => {
+        ErrorLogger.debug('Volume change while dragging failed', 'AudioScreen', { error });
+      });
+    }
+  };
+
+  const handleVolumeComplete = async (value: number) => {
+    const volume = Math.round(value);
+    setVolumeOverride(volume);
+    await runAudioCommand('change volume', () => api.setVolume(volume));
+    setVolumeOverride(null);
+  };
+
+  const playing = audio?.playing ?? null;
+  const volume = volumeOverride ?? audio?.volume ?? 100;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader title="Audio" onBack={() => navigation.goBack()} />
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={false}
+            onRefresh={refresh}
+            tintColor={FreeShowTheme.colors.secondary}
+          />
+        }
+      >
+        {/* Now Playing */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Now Playing</Text>
+          {playing ? (
+            <>
+              <Text style={styles.trackName} numberOfLines={1}>
+                {playing.name}
+              </Text>
+              <LevelSlider
+                value={playing.position}
+                maximumValue={playing.duration}
+                disabled={playing.duration <= 0}
+                onSlidingComplete={seconds =>
+                  runAudioCommand('seek', () => api.seekAudio(Math.round(seconds)))
+                }
+              />
+              <View style={styles.timeRow}>
+                <Text style={styles.timeText}>{formatTimerSeconds(playing.position)}</Text>
+                <Text style={styles.timeText}>{formatTimerSeconds(playing.duration)}</Text>
+              </View>
+              <View style={styles.transportRow}>
+                <TouchableOpacity
+                  style={[styles.transportButton, styles.playButton]}
+                  onPress={() =>
+                    runAudioCommand(playing.isPaused ? 'resume audio' : 'pause audio', () =>
+                      api.pauseAudio()
+                    )
+                  }
+                >
+                  <Ionicons name={playing.isPaused ? 'play' : 'pause'} size={28} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.transportButton}
+                  onPress={() => runAudioCommand('stop audio', () => api.stopAudio())}
+                >
+                  <Ionicons name="stop" size={28} color={FreeShowTheme.colors.text} />
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.emptyText}>Nothing is playing</Text>
+          )}
+        </View>
+
+        {/* Volume */}
+        <View style={styles.card}>
+          <View style={styles.volumeHeader}>
+            <Text style={styles.cardTitle}>Master Volume</Text>
+            <Text style={styles.volumeValue}>{volume}%</Text>
+          </View>
+          <View style={styles.volumeRow}>
+            <Ionicons name="volume-low" size={20} color={FreeShowTheme.colors.textSecondary} />
+            <View style={styles.volumeSlider}>
+              <LevelSlider
+                value={volume}
+                maximumValue={100}
+                disabled={!audio}
+                onValueChange={handleVolumeChange}
+                onSlidingComplete={handleVolumeComplete}
+              />
+            </View>
+            <Ionicons name="volume-high" size={20} color={FreeShowTheme.colors.textSecondary} />
+          </View>
+        </View>
+
+        {isLoading && !audio && (
+          <ActivityIndicator
+            style={styles.loader}
+            size="large"
+            color={FreeShowTheme.colors.secondary}
+          />
+        )}
+
+        {/* Playlists */}
+        {audio && audio.playlists.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Playlists</Text>
+            {audio.playlists.map(playlist => (
+              <TouchableOpacity
+                key={playlist.id}
+                style={styles.row}
+                onPress={() =>
+                  runAudioCommand('start playlist', () => api.startPlaylist(playlist.id))
+                }
+              >
+                <Ionicons name="list" size={18} color={FreeShowTheme.colors.secondary} />
+                <Text style={styles.rowName} numberOfLines={1}>
+                  {playlist.name}
+                </Text>
+                <Text style={styles.rowMeta}>{playlist.tracks.length} tracks</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Tracks */}
+        {audio && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Tracks</Text>
+            {audio.tracks.length === 0 && (
+              <Text style={styles.emptyText}>No audio tracks in FreeShow</Text>
+            )}
+            {audio.tracks.map(track => {
+              const isPlaying = track.id === playing?.id;
+              return (
+                <TouchableOpacity
+                  key={track.id}
+                  style={[styles.row, isPlaying && styles.rowPlaying]}
+                  onPress={() => runAudioCommand('play audio', () => api.playAudio(track.id))}
+                >
+                  <Ionicons
+                    name={isPlaying ? 'volume-high' : 'musical-note'}
+                    size={18}
+                    color={
+                      isPlaying
+                        ? FreeShowTheme.colors.secondary
+                        : FreeShowTheme.colors.textSecondary
+                    }
+                  />
+                  <Text style={styles.rowName} numberOfLines={1}>
+                    {track.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Audio"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  loader: {
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  card: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    padding: FreeShowTheme.spacing.lg,
+    marginBottom: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  cardTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  trackName: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timeText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontVariant: ['tabular-nums'],
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  transportRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.lg,
+  },
+  transportButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  playButton: {
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  volumeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  volumeValue: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    color: FreeShowTheme.colors.text,
+  },
+  volumeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  volumeSlider: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: FreeShowTheme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: FreeShowTheme.colors.primaryDarker,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  rowPlaying: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  rowMeta: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+});
+
+export default AudioScreen;
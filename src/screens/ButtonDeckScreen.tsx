@@ -0,0 +1,489 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ButtonDeck from '../components/ButtonDeck';
+import ConfirmationModal from '../components/ConfirmationModal';
+import ErrorModal from '../components/ErrorModal';
+import { useConnection } from '../contexts';
+import { settingsRepository } from '../repositories';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { APIDeck, APIDeckButton } from '../types';
+import { formatActionParams, parseActionParams } from '../utils/apiParams';
+import {
+  createDeckButtonId,
+  createDeckFromPreset,
+  DECK_COLOR_OPTIONS,
+  DECK_ICON_OPTIONS,
+  DECK_PRESETS,
+  DEFAULT_PRESET_ID,
+} from '../utils/deckPresets';
+
+interface ButtonDeckScreenProps {
+  navigation: any;
+}
+
+const COLUMN_OPTIONS = [2, 3, 4];
+
+/**
+ * Button deck editor
+ * Arrange the API mode buttons for the current connection, starting from a preset or from scratch
+ */
+const ButtonDeckScreen: React.FC<ButtonDeckScreenProps> = ({ navigation }) => {
+  const { state } = useConnection();
+  const host = state.connectionHost;
+  const [deck, setDeck] = useState<APIDeck>(() => createDeckFromPreset(DEFAULT_PRESET_ID));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [paramsText, setParamsText] = useState('');
+  const [paramsError, setParamsError] = useState<string | null>(null);
+  const [pendingPreset, setPendingPreset] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!host) return;
+    settingsRepository.getConnectionDeck(host).then(saved => {
+      if (saved) setDeck(saved);
+    });
+  }, [host]);
+
+  const selected = deck.buttons.find(button => button.id === selectedId) ?? null;
+
+  const selectButton = (button: APIDeckButton | null) => {
+    setSelectedId(button?.id ?? null);
+    setParamsText(formatActionParams(button?.data));
+    setParamsError(null);
+  };
+
+  const updateSelected = (update: Partial<APIDeckButton>) => {
+    setDeck(current => ({
+      ...current,
+      buttons: current.buttons.map(button =>
+        button.id === selectedId ? { ...button, ...update } : button
+      ),
+    }));
+  };
+
+  const handleParamsChange = (text: string) => {
+    setParamsText(text);
+    const result = parseActionParams(text);
+    if (!result.isValid) {
+      setParamsError(result.error);
+      return;
+    }
+    setParamsError(null);
+    updateSelected({ data: result.data });
+  };
+
+  const handleAddButton = () => {
+    const button: APIDeckButton = {
+      id: createDeckButtonId(),
+      label: 'New Button',
+      icon: 'star',
+      color: DECK_COLOR_OPTIONS[0],
+      action: '',
+    };
+    setDeck(current => ({ ...current, buttons: [...current.buttons, button] }));
+    selectButton(button);
+  };
+
+  const handleMove = (offset: number) => {
+    setDeck(current => {
+      const index = current.buttons.findIndex(button => button.id === selectedId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= current.buttons.length) return current;
+      const buttons = [...current.buttons];
+      [buttons[index], buttons[target]] = [buttons[target], buttons[index]];
+      return { ...current, buttons };
+    });
+  };
+
+  const handleRemove = () => {
+    setDeck(current => ({
+      ...current,
+      buttons: current.buttons.filter(button => button.id !== selectedId),
+    }));
+    selectButton(null);
+  };
+
+  const handleApplyPreset = () => {
+    if (pendingPreset) {
+      setDeck(createDeckFromPreset(pendingPreset));
+      selectButton(null);
+    }
+    setPendingPreset(null);
+  };
+
+  const incomplete = deck.buttons.find(button => !button.action.trim() || !button.label.trim());
+
+  const handleSave = async () => {
+    if (!host) return;
+    if (incomplete) {
+      selectButton(incomplete);
+      setErrorMessage('Every button needs a label and an API action.');
+      return;
+    }
+    try {
+      await settingsRepository.setConnectionDeck(host, {
+        ...deck,
+        buttons: deck.buttons.map(button => ({ ...button, action: button.action.trim() })),
+      });
+      navigation.goBack();
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to save button deck',
+        'ButtonDeckScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save button deck');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Button Deck"
+        subtitle={host}
+        onBack={() => navigation.goBack()}
+        right={
+          <TouchableOpacity
+            style={[styles.saveButton, (!!paramsError || !host) && styles.disabled]}
+            onPress={handleSave}
+            disabled={!!paramsError || !host}
+          >
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Presets */}
+        <Text style={styles.sectionTitle}>Presets</Text>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {DECK_PRESETS.map(preset => (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.presetChip, deck.presetId === preset.id && styles.chipSelected]}
+              onPress={() => setPendingPreset(preset.id)}
+            >
+              <Text style={styles.presetName}>{preset.name}</Text>
+              <Text style={styles.presetDescription} numberOfLines={2}>
+                {preset.description}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {/* Layout */}
+        <View style={styles.columnsRow}>
+          <Text style={styles.sectionTitle}>Columns</Text>
+          {COLUMN_OPTIONS.map(columns => (
+            <TouchableOpacity
+              key={columns}
+              style={[styles.columnChip, deck.columns === columns && styles.chipSelected]}
+              onPress={() => setDeck(current => ({ ...current, columns }))}
+            >
+              <Text style={styles.chipText}>{columns}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.hintText}>Tap a button to edit it</Text>
+        <ButtonDeck
+          deck={deck}
+          selectedId={selectedId}
+          onPress={button => selectButton(button.id === selectedId ? null : button)}
+        />
+
+        <TouchableOpacity style={styles.addButton} onPress={handleAddButton}>
+          <Ionicons name="add" size={20} color={FreeShowTheme.colors.secondary} />
+          <Text style={styles.addButtonText}>Add Button</Text>
+        </TouchableOpacity>
+
+        {/* Button editor */}
+        {selected && (
+          <View style={styles.editor}>
+            <Text style={styles.fieldLabel}>Label</Text>
+            <TextInput
+              style={styles.input}
+              value={selected.label}
+              onChangeText={label => updateSelected({ label })}
+              placeholder="Button label"
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+            />
+
+            <Text style={styles.fieldLabel}>API Action</Text>
+            <TextInput
+              style={styles.input}
+              value={selected.action}
+              onChangeText={action => updateSelected({ action })}
+              placeholder="e.g. next_slide"
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.fieldLabel}>Parameters (JSON, optional)</Text>
+            <TextInput
+              style={[styles.input, paramsError && styles.inputError]}
+              value={paramsText}
+              onChangeText={handleParamsChange}
+              placeholder='e.g. {"id": "show-id"}'
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {paramsError && <Text style={styles.errorText}>{paramsError}</Text>}
+
+            <Text style={styles.fieldLabel}>Icon</Text>
+            <View style={styles.swatchGrid}>
+              {DECK_ICON_OPTIONS.map(icon => (
+                <TouchableOpacity
+                  key={icon}
+                  style={[styles.iconOption, selected.icon === icon && styles.chipSelected]}
+                  onPress={() => updateSelected({ icon })}
+                >
+                  <Ionicons name={icon} size={20} color={FreeShowTheme.colors.text} />
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Colour</Text>
+            <View style={styles.swatchGrid}>
+              {DECK_COLOR_OPTIONS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.colorOption,
+                    { backgroundColor: color },
+                    selected.color === color && styles.colorOptionSelected,
+                  ]}
+                  onPress={() => updateSelected({ color })}
+                />
+              ))}
+            </View>
+
+            <View style={styles.editorActions}>
+              <TouchableOpacity style={styles.editorAction} onPress={() => handleMove(-1)}>
+                <Ionicons name="arrow-back" size={20} color={FreeShowTheme.colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editorAction} onPress={() => handleMove(1)}>
+                <Ionicons name="arrow-forward" size={20} color={FreeShowTheme.colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.editorAction, styles.removeAction]}
+                onPress={handleRemove}
+              >
+                <Ionicons name="trash-outline" size={20} color="white" />
+                <Text style={styles.removeActionText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      <ConfirmationModal
+        visible={!!pendingPreset}
+        title="Replace Deck?"
+        message="Loading a preset replaces every button in this deck."
+        confirmText="Replace"
+        confirmStyle="destructive"
+        icon="grid"
+        onConfirm={handleApplyPreset}
+        onCancel={() => setPendingPreset(null)}
+      />
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Button Deck"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  saveButton: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  saveButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  chipRow: {
+    gap: FreeShowTheme.spacing.sm,
+    marginBottom: FreeShowTheme.spacing.lg,
+  },
+  presetChip: {
+    width: 150,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  chipSelected: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  presetName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  presetDescription: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  columnsRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: FreeShowTheme.spacing.sm,
+    marginBottom: FreeShowTheme.spacing.md,
+  },
+  columnChip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  chipText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  hintText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    marginTop: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+  addButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.secondary,
+  },
+  editor: {
+    marginTop: FreeShowTheme.spacing.lg,
+    marginBottom: FreeShowTheme.spacing.xl,
+    padding: FreeShowTheme.spacing.lg,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  fieldLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.textSecondary,
+    marginTop: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.xs,
+  },
+  input: {
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  inputError: {
+    borderColor: '#dc3545',
+  },
+  errorText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: '#dc3545',
+    marginTop: FreeShowTheme.spacing.xs,
+  },
+  swatchGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  colorOptionSelected: {
+    borderWidth: 3,
+    borderColor: FreeShowTheme.colors.text,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.sm,
+    marginTop: FreeShowTheme.spacing.lg,
+  },
+  editorAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  removeAction: {
+    marginLeft: 'auto',
+    backgroundColor: '#dc3545',
+  },
+  removeActionText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default ButtonDeckScreen;
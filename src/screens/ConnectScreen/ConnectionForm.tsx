@@ -1,8 +1,9 @@
 import React, { useEffect, useCallback, useRef } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Animated } from 'react-native';
+import { View, Text, TextInput, StyleSheet, Animated } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { FreeShowTheme } from '../../theme/FreeShowTheme';
+import FocusableTouchable from '../../components/FocusableTouchable';
 import { useConnection } from '../../contexts';
 import { ValidationService } from '../../services/InputValidationService';
 import { ErrorLogger } from '../../services/ErrorLogger';
@@ -223,7 +224,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
             keyboardType="default"
           />
           {!isConnected && (
-            <TouchableOpacity
+            <FocusableTouchable
               style={styles.inputAction}
               onPress={onShowQRScanner}
               accessibilityRole="button"
@@ -231,13 +232,13 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
               accessibilityHint="Open camera to scan a QR code for connection details"
             >
               <Ionicons name="qr-code-outline" size={22} color={FreeShowTheme.colors.secondary} />
-            </TouchableOpacity>
+            </FocusableTouchable>
           )}
         </View>
       </View>
 
       {/* Advanced Settings Toggle */}
-      <TouchableOpacity 
+      <FocusableTouchable 
         style={styles.advancedToggle}
         onPress={() => setShowAdvanced(!showAdvanced)}
         accessibilityRole="button"
@@ -250,7 +251,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
           size={20} 
           color={FreeShowTheme.colors.textSecondary} 
         />
-      </TouchableOpacity>
+      </FocusableTouchable>
 
       {/* Advanced Settings */}
       {showAdvanced && (
@@ -270,12 +271,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                   editable={!isConnected}
                 />
                 {remotePort !== '' && !isConnected && (
-                  <TouchableOpacity 
+                  <FocusableTouchable 
                     style={styles.clearPortButton}
                     onPress={() => handleClearPort('remote')}
                   >
                     <Ionicons name="close" size={16} color={FreeShowTheme.colors.textSecondary} />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 )}
               </View>
             </View>
@@ -294,12 +295,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                   editable={!isConnected}
                 />
                 {stagePort !== '' && !isConnected && (
-                  <TouchableOpacity 
+                  <FocusableTouchable 
                     style={styles.clearPortButton}
                     onPress={() => handleClearPort('stage')}
                   >
                     <Ionicons name="close" size={16} color={FreeShowTheme.colors.textSecondary} />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 )}
               </View>
             </View>
@@ -318,12 +319,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                   editable={!isConnected}
                 />
                 {controlPort !== '' && !isConnected && (
-                  <TouchableOpacity 
+                  <FocusableTouchable 
                     style={styles.clearPortButton}
                     onPress={() => handleClearPort('control')}
                   >
                     <Ionicons name="close" size={16} color={FreeShowTheme.colors.textSecondary} />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 )}
               </View>
             </View>
@@ -342,12 +343,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                   editable={!isConnected}
                 />
                 {outputPort !== '' && !isConnected && (
-                  <TouchableOpacity 
+                  <FocusableTouchable 
                     style={styles.clearPortButton}
                     onPress={() => handleClearPort('output')}
                   >
                     <Ionicons name="close" size={16} color={FreeShowTheme.colors.textSecondary} />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 )}
               </View>
             </View>
@@ -366,12 +367,12 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                   editable={!isConnected}
                 />
                 {apiPort !== '' && !isConnected && (
-                  <TouchableOpacity 
+                  <FocusableTouchable 
                     style={styles.clearPortButton}
                     onPress={() => handleClearPort('api')}
                   >
                     <Ionicons name="close" size={16} color={FreeShowTheme.colors.textSecondary} />
-                  </TouchableOpacity>
+                  </FocusableTouchable>
                 )}
               </View>
             </View>
@@ -387,13 +388,13 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
           
           {/* Restore Defaults Button */}
           {!isConnected && (
-            <TouchableOpacity 
+            <FocusableTouchable 
               style={styles.restoreDefaultsButton}
               onPress={handleRestoreDefaults}
             >
               <Ionicons name="refresh" size={16} color={FreeShowTheme.colors.textSecondary} />
               <Text style={styles.restoreDefaultsText}>Restore Defaults</Text>
-            </TouchableOpacity>
+            </FocusableTouchable>
           )}
         </View>
       )}
@@ -402,7 +403,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
       <View style={styles.actionContainer}>
         {isConnected ? (
           <View style={styles.connectedActions}>
-            <TouchableOpacity 
+            <FocusableTouchable 
               style={styles.secondaryActionButton} 
               onPress={onShowShareQR}
               accessibilityRole="button"
@@ -419,9 +420,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                 <Ionicons name="share-outline" size={20} color="white" />
                 <Text style={styles.secondaryButtonText}>Share</Text>
               </View>
-            </TouchableOpacity>
+            </FocusableTouchable>
 
-            <TouchableOpacity
+            <FocusableTouchable
               style={styles.secondaryActionButton}
               onPress={onDisconnect}
               accessibilityRole="button"
@@ -438,11 +439,11 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                 <Ionicons name="log-out-outline" size={20} color="white" />
                 <Text style={styles.secondaryButtonText}>Disconnect</Text>
               </View>
-            </TouchableOpacity>
+            </FocusableTouchable>
           </View>
         ) : (
           isConnecting ? (
-            <TouchableOpacity
+            <FocusableTouchable
               style={[styles.actionButton, styles.connectingButton]}
               onPress={onCancelConnection}
               accessibilityRole="button"
@@ -459,9 +460,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                 <Animated.View style={[styles.spinner, { transform: [{ rotate: spinInterpolation }] }]} />
                 <Text style={styles.buttonText}>Connecting to interface</Text>
               </View>
-            </TouchableOpacity>
+            </FocusableTouchable>
           ) : (
-            <TouchableOpacity
+            <FocusableTouchable
               style={[styles.actionButton, styles.connectButton]}
               onPress={handleConnect}
               accessibilityRole="button"
@@ -478,7 +479,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({
                 <Ionicons name="wifi" size={24} color="white" />
                 <Text style={styles.buttonText}>Connect</Text>
               </View>
-            </TouchableOpacity>
+            </FocusableTouchable>
           )
         )}
       </View>
@@ -1,8 +1,9 @@
 import React from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { View, Text, TextInput, StyleSheet, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { FreeShowTheme } from '../../theme/FreeShowTheme';
 import { ConnectionHistory } from '../../repositories';
+import FocusableTouchable from '../../components/FocusableTouchable';
 
 interface EditNicknameModalProps {
   visible: boolean;
@@ -32,12 +33,12 @@ const EditNicknameModal: React.FC<EditNicknameModalProps> = ({
         <View style={styles.editModalContent}>
           <View style={styles.editModalHeader}>
             <Text style={styles.editModalTitle}>Edit Connection Name</Text>
-            <TouchableOpacity
+            <FocusableTouchable
               style={styles.editModalCloseButton}
               onPress={onCancel}
             >
               <Ionicons name="close" size={24} color={FreeShowTheme.colors.textSecondary} />
-            </TouchableOpacity>
+            </FocusableTouchable>
           </View>
           
           <View style={styles.editModalBody}>
@@ -56,18 +57,18 @@ const EditNicknameModal: React.FC<EditNicknameModalProps> = ({
           </View>
           
           <View style={styles.editModalButtons}>
-            <TouchableOpacity
+            <FocusableTouchable
               style={[styles.editModalButton, styles.editModalCancelButton]}
               onPress={onCancel}
             >
               <Text style={styles.editModalCancelText}>Cancel</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
+            </FocusableTouchable>
+            <FocusableTouchable
               style={[styles.editModalButton, styles.editModalSaveButton]}
               onPress={onSave}
             >
               <Text style={styles.editModalSaveText}>Save</Text>
-            </TouchableOpacity>
+            </FocusableTouchable>
           </View>
         </View>
       </View>
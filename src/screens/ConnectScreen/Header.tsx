@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, Animated, Pressable, Dimensions, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
@@ -79,6 +79,7 @@ const Header: React.FC<HeaderProps> = ({
     };
   }, [connectionStatus, isConnected, connectionName, connectionHost]);
 
+  const [isDisconnectFocused, setIsDisconnectFocused] = useState(false);
   const screenWidth = Dimensions.get('window').width;
   const isTablet = screenWidth >= 768;
 
@@ -114,9 +115,12 @@ const Header: React.FC<HeaderProps> = ({
             <Pressable
               style={({ pressed }) => [
                 styles.actionButton,
-                pressed && styles.actionButtonPressed
+                pressed && styles.actionButtonPressed,
+                isDisconnectFocused && styles.actionButtonFocused
               ]}
               onPress={onDisconnect}
+              onFocus={() => setIsDisconnectFocused(true)}
+              onBlur={() => setIsDisconnectFocused(false)}
             >
               <LinearGradient
                 colors={['rgba(239, 83, 80, 0.2)', 'rgba(239, 83, 80, 0.1)']}
@@ -247,6 +251,10 @@ const styles = StyleSheet.create({
   actionButtonPressed: {
     opacity: 0.7,
   },
+  actionButtonFocused: {
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.secondary,
+  },
   actionButtonGradient: {
     width: 44,
     height: 44,
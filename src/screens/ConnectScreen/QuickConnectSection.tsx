@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useCallback } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, Animated } from 'react-native';
+import { View, Text, StyleSheet, Animated } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Constants from 'expo-constants';
 import { FreeShowTheme } from '../../theme/FreeShowTheme';
@@ -7,6 +7,7 @@ import { DiscoveredFreeShowInstance } from '../../services/AutoDiscoveryService'
 import { ConnectionHistory } from '../../repositories';
 import { configService } from '../../config/AppConfig';
 import ErrorModal from '../../components/ErrorModal';
+import FocusableTouchable from '../../components/FocusableTouchable';
 
 interface QuickConnectSectionProps {
   history: ConnectionHistory[];
@@ -146,7 +147,7 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
           <View style={styles.discoverySection}>
             <View style={styles.discoverySectionHeader}>
               <Text style={styles.discoveryTitle}>Network Scan</Text>
-              <TouchableOpacity
+              <FocusableTouchable
                 onPress={handleScanPress}
                 style={[
                   styles.discoveryToggle,
@@ -186,7 +187,7 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                     {effectiveScanActive ? 'Scanning…' : 'Scan'}
                   </Text>
                 </View>
-              </TouchableOpacity>
+              </FocusableTouchable>
             </View>
             {isExpoGo && showExpoMockNotice && (
               <View style={styles.mockNotice}>
@@ -201,7 +202,7 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                   const hasServices = service.capabilities && service.capabilities.length > 0;
                   const connectDisabled = !hasServices || (isExpoGo && showExpoMockNotice);
                   return (
-                    <TouchableOpacity
+                    <FocusableTouchable
                       key={service.ip}
                       style={[
                         styles.discoveredDevice,
@@ -273,7 +274,7 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                           color={connectDisabled ? FreeShowTheme.colors.textSecondary : FreeShowTheme.colors.textSecondary} 
                         />
                       </View>
-                    </TouchableOpacity>
+                    </FocusableTouchable>
                   );
                 })}
               </View>
@@ -300,17 +301,17 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
           <View style={styles.recentSection}>
             <View style={styles.recentSectionHeader}>
               <Text style={styles.recentTitle}>Recent Connections</Text>
-              <TouchableOpacity 
+              <FocusableTouchable 
                 onPress={onClearAllHistory}
                 style={styles.clearAllButton}
               >
                 <Ionicons name="trash-outline" size={16} color={FreeShowTheme.colors.textSecondary} />
                 <Text style={styles.clearAllText}>Clear All</Text>
-              </TouchableOpacity>
+              </FocusableTouchable>
             </View>
             <View style={styles.recentDevices}>
               {recentHistory.map((item: ConnectionHistory, _index: number) => (
-                <TouchableOpacity
+                <FocusableTouchable
                   key={item.id}
                   style={styles.recentDevice}
                   onPress={() => onHistoryConnect(item)}
@@ -324,7 +325,7 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                     </Text>
                   </View>
                   <View style={styles.recentDeviceActions}>
-                    <TouchableOpacity
+                    <FocusableTouchable
                       style={styles.editConnectionButton}
                       onPress={(e) => {
                         e.stopPropagation();
@@ -332,8 +333,8 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                       }}
                     >
                       <Ionicons name="create-outline" size={16} color={FreeShowTheme.colors.textSecondary} />
-                    </TouchableOpacity>
-                    <TouchableOpacity
+                    </FocusableTouchable>
+                    <FocusableTouchable
                       style={styles.deleteConnectionButton}
                       onPress={(e) => {
                         e.stopPropagation();
@@ -341,9 +342,9 @@ const QuickConnectSection: React.FC<QuickConnectSectionProps> = React.memo(({
                       }}
                     >
                       <Ionicons name="trash-outline" size={16} color={FreeShowTheme.colors.textSecondary} />
-                    </TouchableOpacity>
+                    </FocusableTouchable>
                   </View>
-                </TouchableOpacity>
+                </FocusableTouchable>
               ))}
             </View>
           </View>
@@ -19,6 +19,7 @@ import { useSettings, useConnection } from '../contexts';
 import { ConnectionHistory, settingsRepository } from '../repositories';
 import ConfirmationModal from '../components/ConfirmationModal';
 import ErrorModal from '../components/ErrorModal';
+import ConnectionProfileModal from '../components/ConnectionProfileModal';
 import { ValidationService } from '../services/InputValidationService';
 import { configService } from '../config/AppConfig';
 import { ErrorLogger } from '../services/ErrorLogger';
@@ -31,7 +32,7 @@ interface ConnectionHistoryScreenProps {
 const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.memo(({ navigation }) => {
   const { history, actions } = useSettings();
   const connection = useConnection();
-  const { connect, updateShowPorts } = connection.actions;
+  const { connect, updateShowPorts, triggerAutoLaunch } = connection.actions;
   
   const [showEditNickname, setShowEditNickname] = useState(false);
   const [editingConnection, setEditingConnection] = useState<ConnectionHistory | null>(null);
@@ -40,6 +41,7 @@ const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.me
   const [showClearAllConfirm, setShowClearAllConfirm] = useState(false);
   const [connectionToRemove, setConnectionToRemove] = useState<string | null>(null);
   const [isPingingHost, setIsPingingHost] = useState(false);
+  const [profileHost, setProfileHost] = useState<string | null>(null);
   const [errorModal, setErrorModal] = useState<{visible: boolean, title: string, message: string}>({
     visible: false,
     title: '',
@@ -51,6 +53,11 @@ const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.me
     return [...history].sort((a, b) => new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime());
   }, [history]);
 
+  // Looked up by host so the editor sees the entry again after history refreshes
+  const profileConnection = useMemo(() => {
+    return history.find(item => item.host === profileHost) ?? null;
+  }, [history, profileHost]);
+
   const handleRemoveFromHistory = useCallback((id: string) => {
     setConnectionToRemove(id);
     setShowRemoveConfirm(true);
@@ -239,6 +246,11 @@ const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.me
                       await updateShowPorts(validatedShowPorts);
                       // Navigate to Interface screen using the correct nested navigation
                       navigation.navigate('Main', { screen: 'Interface' });
+                      // A profile with its own auto-launch opens that interface on every pick
+                      const profileLaunch = item.profile?.autoLaunchInterface;
+                      if (profileLaunch && profileLaunch !== 'none') {
+                        await triggerAutoLaunch?.(sanitizedHost, defaultPort, navigation, validatedShowPorts, true);
+                      }
                     } catch (error) {
                       ErrorLogger.error('Failed to update show ports after connection', 'ConnectionHistoryScreen', error instanceof Error ? error : new Error(String(error)));
                       // Still navigate even if port update fails
@@ -275,6 +287,16 @@ const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.me
                     <ActivityIndicator size="small" color={FreeShowTheme.colors.secondary} />
                   ) : (
                     <>
+                      <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={(e) => {
+                          e.stopPropagation();
+                          setProfileHost(item.host);
+                        }}
+                        accessibilityLabel="Edit connection profile"
+                      >
+                        <Ionicons name="options-outline" size={18} color={item.profile && Object.keys(item.profile).length > 0 ? FreeShowTheme.colors.secondary : FreeShowTheme.colors.textSecondary} />
+                      </TouchableOpacity>
                       <TouchableOpacity
                         style={styles.editButton}
                         onPress={(e) => {
@@ -386,6 +408,12 @@ const ConnectionHistoryScreen: React.FC<ConnectionHistoryScreenProps> = React.me
         </View>
       </Modal>
 
+      {/* Connection Profile Modal */}
+      <ConnectionProfileModal
+        connection={profileConnection}
+        onClose={() => setProfileHost(null)}
+      />
+
       {/* Remove Connection Confirmation Modal */}
       <ConfirmationModal
         visible={showRemoveConfirm}
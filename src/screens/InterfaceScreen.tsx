@@ -1,11 +1,11 @@
 import * as Clipboard from 'expo-clipboard';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Animated, Linking, StatusBar, StyleSheet, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { configService } from '../config/AppConfig';
-import { useConnection } from '../contexts';
+import { useConnection, useConnectionSessions } from '../contexts';
 import { useAppLaunch } from '../hooks/useAppLaunch';
 import { useInterfaceNavigation } from '../hooks/useInterfaceNavigation';
 import { useModalState } from '../hooks/useModalState';
@@ -17,6 +17,8 @@ import { getNavigationLayoutInfo } from '../utils/navigationUtils';
 import CompactPopup from '../components/CompactPopup';
 import ConfirmationModal from '../components/ConfirmationModal';
 import ConnectingScreen from '../components/ConnectingScreen';
+import ConnectionHealthBanner from '../components/ConnectionHealthBanner';
+import ConnectionSwitcher from '../components/ConnectionSwitcher';
 import EnableInterfaceModal from '../components/EnableInterfaceModal';
 import ErrorModal from '../components/ErrorModal';
 import InterfaceCard from '../components/InterfaceCard';
@@ -43,6 +45,8 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
     currentShowPorts,
     autoConnectAttempted,
     connectionStatus,
+    connectionHealth,
+    linkStats,
   } = state;
   const { disconnect, updateShowPorts, cancelConnection } = actions;
 
@@ -54,6 +58,8 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
   const modalState = useModalState();
   const navigationHandlers = useInterfaceNavigation(navigation, connectionHost, isConnected);
   const appLaunch = useAppLaunch();
+  const connectionSessions = useConnectionSessions();
+  const [showConnectionSwitcher, setShowConnectionSwitcher] = useState(false);
 
   // Animate only once per cold start (session). Otherwise render instantly.
   const introAnimatingRef = React.useRef(false);
@@ -246,9 +252,27 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
     return <ConnectingScreen onCancel={cancelConnection} connectionStatus={connectionStatus} />;
   }
 
+  const connectionSwitcher = (
+    <ConnectionSwitcher
+      visible={showConnectionSwitcher}
+      onClose={() => setShowConnectionSwitcher(false)}
+      onAddConnection={navigationHandlers.navigateToConnect}
+    />
+  );
+
   // Not connected state after auto-reconnect attempt is done
   if (!isConnected) {
-    return <NotConnectedScreen onNavigateToConnect={navigationHandlers.navigateToConnect} />;
+    return (
+      <>
+        <NotConnectedScreen
+          onNavigateToConnect={navigationHandlers.navigateToConnect}
+          onSwitchConnection={
+            connectionSessions.length > 1 ? () => setShowConnectionSwitcher(true) : undefined
+          }
+        />
+        {connectionSwitcher}
+      </>
+    );
   }
 
   return (
@@ -271,9 +295,15 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
         <InterfaceHeader
           connectionName={connectionName}
           connectionHost={connectionHost}
+          connectionHealth={connectionHealth}
+          linkStats={linkStats}
+          connectionCount={connectionSessions.length}
+          onSwitchConnection={() => setShowConnectionSwitcher(true)}
           onDisconnect={handleDisconnect}
         />
 
+        <ConnectionHealthBanner />
+
         {/* Interface Cards */}
         <View style={styles.interfacesSection}>
           <Text
@@ -315,6 +345,7 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
                     onPress={() => handleShowSelect(show)}
                     onLongPress={() => openCompactPopup(show)}
                     size={isTablet ? 'large' : 'default'}
+                    hasTVPreferredFocus={isTV && index === 0}
                   />
                 </Animated.View>
               ))}
@@ -425,6 +456,8 @@ const InterfaceScreen: React.FC<InterfaceScreenProps> = ({ navigation }) => {
         onCancel={modalState.hideEnableInterfaceModal}
       />
 
+      {connectionSwitcher}
+
       <ErrorModal
         visible={navigationHandlers.errorModal.visible}
         title={navigationHandlers.errorModal.title}
@@ -0,0 +1,509 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import { getDeckIcon } from '../components/ButtonDeck';
+import ConfirmationModal from '../components/ConfirmationModal';
+import ErrorModal from '../components/ErrorModal';
+import { settingsRepository } from '../repositories';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { APIMacro, APIMacroStep } from '../types';
+import { formatActionParams, parseActionParams } from '../utils/apiParams';
+import {
+  createDeckButtonId,
+  DECK_COLOR_OPTIONS,
+  DECK_ICON_OPTIONS,
+  isHoldOnlyAction,
+} from '../utils/deckPresets';
+
+interface MacrosScreenProps {
+  navigation: any;
+}
+
+const createStep = (): APIMacroStep => ({ id: createDeckButtonId(), action: '' });
+
+/**
+ * Macro editor
+ * Build ordered lists of API actions, with optional pauses, that run from a single button
+ */
+const MacrosScreen: React.FC<MacrosScreenProps> = ({ navigation }) => {
+  const [macros, setMacros] = useState<APIMacro[]>([]);
+  const [editing, setEditing] = useState<APIMacro | null>(null);
+  // Parameter text is kept per step so half-typed JSON isn't thrown away
+  const [paramsText, setParamsText] = useState<Record<string, string>>({});
+  const [paramsErrors, setParamsErrors] = useState<Record<string, string>>({});
+  const [pendingDelete, setPendingDelete] = useState<APIMacro | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    settingsRepository.getMacros().then(setMacros);
+  }, []);
+
+  const startEditing = (macro: APIMacro) => {
+    setEditing(macro);
+    setParamsText(
+      Object.fromEntries(macro.steps.map(step => [step.id, formatActionParams(step.data)]))
+    );
+    setParamsErrors({});
+  };
+
+  const handleNewMacro = () =>
+    startEditing({
+      id: createDeckButtonId(),
+      name: 'New Macro',
+      icon: 'flash',
+      color: DECK_COLOR_OPTIONS[0],
+      steps: [createStep()],
+    });
+
+  const updateEditing = (update: Partial<APIMacro>) =>
+    setEditing(current => (current ? { ...current, ...update } : current));
+
+  const updateStep = (stepId: string, update: Partial<APIMacroStep>) =>
+    setEditing(current =>
+      current
+        ? {
+            ...current,
+            steps: current.steps.map(step => (step.id === stepId ? { ...step, ...update } : step)),
+          }
+        : current
+    );
+
+  const handleParamsChange = (stepId: string, text: string) => {
+    setParamsText(current => ({ ...current, [stepId]: text }));
+    const result = parseActionParams(text);
+    setParamsErrors(current => {
+      const { [stepId]: _previous, ...rest } = current;
+      return result.isValid ? rest : { ...rest, [stepId]: result.error };
+    });
+    if (result.isValid) {
+      updateStep(stepId, { data: result.data });
+    }
+  };
+
+  const handleDelayChange = (stepId: string, text: string) => {
+    const seconds = parseFloat(text.replace(',', '.'));
+    updateStep(stepId, { delayAfter: isNaN(seconds) || seconds <= 0 ? undefined : seconds });
+  };
+
+  const handleMoveStep = (index: number, offset: number) => {
+    if (!editing) return;
+    const target = index + offset;
+    if (target < 0 || target >= editing.steps.length) return;
+    const steps = [...editing.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    updateEditing({ steps });
+  };
+
+  const handleRemoveStep = (stepId: string) => {
+    if (!editing) return;
+    updateEditing({ steps: editing.steps.filter(step => step.id !== stepId) });
+    setParamsErrors(current => {
+      const { [stepId]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      setErrorMessage('Give the macro a name.');
+      return;
+    }
+    if (editing.steps.some(step => !step.action.trim())) {
+      setErrorMessage('Every step needs an API action.');
+      return;
+    }
+    if (editing.steps.some(step => isHoldOnlyAction(step.action))) {
+      setErrorMessage('Macros cannot black out the outputs, use Hold for Blackout instead.');
+      return;
+    }
+    try {
+      setMacros(
+        await settingsRepository.saveMacro({
+          ...editing,
+          name: editing.name.trim(),
+          steps: editing.steps.map(step => ({ ...step, action: step.action.trim() })),
+        })
+      );
+      setEditing(null);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to save macro',
+        'MacrosScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save macro');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      setMacros(await settingsRepository.removeMacro(pendingDelete.id));
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to delete macro',
+        'MacrosScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to delete macro');
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const hasParamsErrors = Object.keys(paramsErrors).length > 0;
+
+  const renderEditor = (macro: APIMacro) => (
+    <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.fieldLabel}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={macro.name}
+        onChangeText={name => updateEditing({ name })}
+        placeholder="Macro name"
+        placeholderTextColor={FreeShowTheme.colors.textSecondary}
+      />
+
+      <Text style={styles.fieldLabel}>Icon</Text>
+      <View style={styles.swatchGrid}>
+        {DECK_ICON_OPTIONS.map(icon => (
+          <TouchableOpacity
+            key={icon}
+            style={[styles.iconOption, macro.icon === icon && styles.optionSelected]}
+            onPress={() => updateEditing({ icon })}
+          >
+            <Ionicons name={icon} size={20} color={FreeShowTheme.colors.text} />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.fieldLabel}>Colour</Text>
+      <View style={styles.swatchGrid}>
+        {DECK_COLOR_OPTIONS.map(color => (
+          <TouchableOpacity
+            key={color}
+            style={[
+              styles.colorOption,
+              { backgroundColor: color },
+              macro.color === color && styles.colorOptionSelected,
+            ]}
+            onPress={() => updateEditing({ color })}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Steps</Text>
+      {macro.steps.map((step, index) => (
+        <View key={step.id} style={styles.stepCard}>
+          <View style={styles.stepHeader}>
+            <Text style={styles.stepNumber}>{index + 1}</Text>
+            <TextInput
+              style={[styles.input, styles.stepAction]}
+              value={step.action}
+              onChangeText={action => updateStep(step.id, { action })}
+              placeholder="API action, e.g. clear_slide"
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity style={styles.stepTool} onPress={() => handleMoveStep(index, -1)}>
+              <Ionicons name="arrow-up" size={18} color={FreeShowTheme.colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepTool} onPress={() => handleMoveStep(index, 1)}>
+              <Ionicons name="arrow-down" size={18} color={FreeShowTheme.colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepTool} onPress={() => handleRemoveStep(step.id)}>
+              <Ionicons name="trash-outline" size={18} color="#dc3545" />
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={[styles.input, paramsErrors[step.id] && styles.inputError]}
+            value={paramsText[step.id] ?? ''}
+            onChangeText={text => handleParamsChange(step.id, text)}
+            placeholder='Parameters (optional), e.g. {"value": "Announcements"}'
+            placeholderTextColor={FreeShowTheme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {paramsErrors[step.id] && <Text style={styles.errorText}>{paramsErrors[step.id]}</Text>}
+          <View style={styles.delayRow}>
+            <Ionicons
+              name="hourglass-outline"
+              size={16}
+              color={FreeShowTheme.colors.textSecondary}
+            />
+            <Text style={styles.delayLabel}>Wait after</Text>
+            <TextInput
+              style={[styles.input, styles.delayInput]}
+              defaultValue={step.delayAfter ? String(step.delayAfter) : ''}
+              onChangeText={text => handleDelayChange(step.id, text)}
+              placeholder="0"
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.delayLabel}>seconds</Text>
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={() => updateEditing({ steps: [...macro.steps, createStep()] })}
+      >
+        <Ionicons name="add" size={20} color={FreeShowTheme.colors.secondary} />
+        <Text style={styles.addButtonText}>Add Step</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <ScrollView style={styles.content}>
+      {macros.length === 0 && (
+        <Text style={styles.emptyText}>
+          Macros run several API actions in order from one button, e.g. clear the slide, select a
+          show and start a timer.
+        </Text>
+      )}
+      {macros.map(macro => (
+        <TouchableOpacity
+          key={macro.id}
+          style={styles.macroRow}
+          onPress={() => startEditing(macro)}
+        >
+          <Ionicons name={getDeckIcon(macro.icon)} size={22} color={macro.color} />
+          <View style={styles.macroInfo}>
+            <Text style={styles.macroName} numberOfLines={1}>
+              {macro.name}
+            </Text>
+            <Text style={styles.macroSteps} numberOfLines={1}>
+              {macro.steps.map(step => step.action).join(' → ')}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.stepTool} onPress={() => setPendingDelete(macro)}>
+            <Ionicons name="trash-outline" size={20} color={FreeShowTheme.colors.textSecondary} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={handleNewMacro}>
+        <Ionicons name="add" size={20} color={FreeShowTheme.colors.secondary} />
+        <Text style={styles.addButtonText}>New Macro</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title={editing ? 'Edit Macro' : 'Macros'}
+        subtitle={editing ? null : `${macros.length} saved`}
+        onBack={() => (editing ? setEditing(null) : navigation.goBack())}
+        right={
+          editing ? (
+            <TouchableOpacity
+              style={[styles.saveButton, hasParamsErrors && styles.disabled]}
+              onPress={handleSave}
+              disabled={hasParamsErrors}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          ) : undefined
+        }
+      />
+
+      {editing ? renderEditor(editing) : renderList()}
+
+      <ConfirmationModal
+        visible={!!pendingDelete}
+        title="Delete Macro?"
+        message={`"${pendingDelete?.name}" will be removed.`}
+        confirmText="Delete"
+        confirmStyle="destructive"
+        icon="trash"
+        onConfirm={handleDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Macros"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  saveButton: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  saveButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.lg,
+  },
+  macroRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  macroInfo: {
+    flex: 1,
+  },
+  macroName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  macroSteps: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    marginTop: FreeShowTheme.spacing.xl,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  fieldLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.textSecondary,
+    marginTop: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.xs,
+  },
+  input: {
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  inputError: {
+    borderColor: '#dc3545',
+  },
+  errorText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: '#dc3545',
+  },
+  swatchGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  optionSelected: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  colorOptionSelected: {
+    borderWidth: 3,
+    borderColor: FreeShowTheme.colors.text,
+  },
+  stepCard: {
+    padding: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+  },
+  stepNumber: {
+    width: 24,
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.secondary,
+  },
+  stepAction: {
+    flex: 1,
+  },
+  stepTool: {
+    padding: FreeShowTheme.spacing.sm,
+  },
+  delayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  delayLabel: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  delayInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    marginTop: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.xl,
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+  addButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.secondary,
+  },
+});
+
+export default MacrosScreen;
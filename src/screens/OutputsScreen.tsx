@@ -0,0 +1,381 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ConfirmationModal from '../components/ConfirmationModal';
+import ErrorModal from '../components/ErrorModal';
+import { configService } from '../config/AppConfig';
+import { useFreeShowApi } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowOutputInfo, FreeShowStyle } from '../types';
+
+interface OutputsScreenProps {
+  navigation: any;
+}
+
+interface PendingChange {
+  title: string;
+  message: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Output management
+ * Toggle, lock and restyle each FreeShow output, confirming changes to the main output while live
+ */
+const OutputsScreen: React.FC<OutputsScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { output: liveOutput } = useLiveOutput();
+  const [outputs, setOutputs] = useState<FreeShowOutputInfo[]>([]);
+  const [outputStyles, setOutputStyles] = useState<FreeShowStyle[]>([]);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const reconcileTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadOutputs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedOutputs, loadedStyles] = await Promise.all([api.getOutputs(), api.getStyles()]);
+      setOutputs(loadedOutputs);
+      setOutputStyles(loadedStyles);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to load outputs',
+        'OutputsScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load outputs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadOutputs();
+  }, [loadOutputs]);
+
+  useEffect(
+    () => () => {
+      if (reconcileTimerRef.current) clearTimeout(reconcileTimerRef.current);
+    },
+    []
+  );
+
+  const mainOutputId = outputs.find(output => output.isMain)?.id;
+  const isLive = !!liveOutput?.showId || !!liveOutput?.layers?.slide;
+
+  // Without a main output from FreeShow any audience output may be the one showing live content
+  const needsConfirm = (output: FreeShowOutputInfo) =>
+    isLive && (mainOutputId ? output.id === mainOutputId : output.enabled && !output.isStage);
+
+  // The set commands aren't answered, so show the change straight away and read back what
+  // FreeShow reports once it had time to apply it, a refused change flips back then
+  const applyChange = async (
+    outputId: string,
+    patch: Partial<FreeShowOutputInfo>,
+    run: () => Promise<void>
+  ) => {
+    setOutputs(current =>
+      current.map(output => (output.id === outputId ? { ...output, ...patch } : output))
+    );
+    try {
+      await run();
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to update output',
+        'OutputsScreen',
+        error instanceof Error ? error : new Error(String(error)),
+        { outputId }
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to update output');
+    }
+
+    if (reconcileTimerRef.current) clearTimeout(reconcileTimerRef.current);
+    reconcileTimerRef.current = setTimeout(() => {
+      reconcileTimerRef.current = null;
+      loadOutputs();
+    }, configService.getNetworkConfig().commandSettleDelay);
+  };
+
+  const requestChange = (
+    output: FreeShowOutputInfo,
+    description: string,
+    patch: Partial<FreeShowOutputInfo>,
+    run: () => Promise<void>
+  ) => {
+    const change = () => applyChange(output.id, patch, run);
+    if (needsConfirm(output)) {
+      setPendingChange({
+        title: output.isMain ? 'Change Main Output?' : 'Change Live Output?',
+        message: `"${output.name}" is showing live content. ${description}`,
+        run: change,
+      });
+      return;
+    }
+    change();
+  };
+
+  const handleToggleEnabled = (output: FreeShowOutputInfo) => {
+    const enabled = !output.enabled;
+    requestChange(
+      output,
+      enabled ? 'Turn this output on?' : 'Turning it off will hide it from the audience.',
+      { enabled },
+      () => api.setOutputEnabled(output.id, enabled)
+    );
+  };
+
+  const handleToggleLocked = (output: FreeShowOutputInfo) => {
+    const locked = !output.locked;
+    requestChange(
+      output,
+      locked ? 'Locking it will freeze what is showing.' : 'Unlock this output?',
+      { locked },
+      () => api.setOutputLocked(output.id, locked)
+    );
+  };
+
+  const handleSelectStyle = (output: FreeShowOutputInfo, styleId: string | null) => {
+    if ((output.styleId ?? null) === styleId) return;
+    requestChange(
+      output,
+      'Changing its style will restyle what the audience sees.',
+      { styleId: styleId ?? undefined },
+      () => api.setOutputStyle(output.id, styleId)
+    );
+  };
+
+  const handleConfirm = () => {
+    pendingChange?.run();
+    setPendingChange(null);
+  };
+
+  const renderOutput = (output: FreeShowOutputInfo) => {
+    const isMain = output.id === mainOutputId;
+
+    return (
+      <View key={output.id} style={[styles.outputCard, !output.enabled && styles.outputCardOff]}>
+        <View style={styles.outputHeader}>
+          <Ionicons
+            name={output.isStage ? 'easel' : 'tv'}
+            size={22}
+            color={
+              output.enabled ? FreeShowTheme.colors.secondary : FreeShowTheme.colors.textSecondary
+            }
+          />
+          <View style={styles.outputInfo}>
+            <Text style={styles.outputName} numberOfLines={1}>
+              {output.name}
+            </Text>
+            <View style={styles.badgeRow}>
+              {isMain && <Text style={[styles.badge, styles.mainBadge]}>MAIN</Text>}
+              {output.isStage && <Text style={styles.badge}>STAGE</Text>}
+              {output.locked && <Text style={[styles.badge, styles.lockedBadge]}>LOCKED</Text>}
+            </View>
+          </View>
+          <TouchableOpacity style={styles.lockButton} onPress={() => handleToggleLocked(output)}>
+            <Ionicons
+              name={output.locked ? 'lock-closed' : 'lock-open-outline'}
+              size={20}
+              color={output.locked ? '#ffc107' : FreeShowTheme.colors.textSecondary}
+            />
+          </TouchableOpacity>
+          <Switch
+            value={output.enabled}
+            onValueChange={() => handleToggleEnabled(output)}
+            trackColor={{
+              false: FreeShowTheme.colors.primaryLighter,
+              true: FreeShowTheme.colors.secondary,
+            }}
+            thumbColor={FreeShowTheme.colors.text}
+          />
+        </View>
+
+        {!output.isStage && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.styleRow}
+          >
+            {[null, ...outputStyles].map(style => {
+              const styleId = style?.id ?? null;
+              const isSelected = (output.styleId ?? null) === styleId;
+              return (
+                <TouchableOpacity
+                  key={styleId ?? 'default'}
+                  style={[styles.styleChip, isSelected && styles.styleChipSelected]}
+                  onPress={() => handleSelectStyle(output, styleId)}
+                >
+                  <Text style={[styles.styleChipText, isSelected && styles.styleChipTextSelected]}>
+                    {style?.name ?? 'Default'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Outputs"
+        subtitle={
+          outputs.length ? `${outputs.filter(o => o.enabled).length} of ${outputs.length} on` : null
+        }
+        onBack={() => navigation.goBack()}
+      />
+
+      {isLoading && outputs.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={FreeShowTheme.colors.secondary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={loadOutputs}
+              tintColor={FreeShowTheme.colors.secondary}
+            />
+          }
+        >
+          {outputs.length === 0 && (
+            <Text style={styles.emptyText}>No outputs found in FreeShow</Text>
+          )}
+          {outputs.map(renderOutput)}
+        </ScrollView>
+      )}
+
+      <ConfirmationModal
+        visible={!!pendingChange}
+        title={pendingChange?.title || ''}
+        message={pendingChange?.message || ''}
+        confirmText="Apply"
+        confirmStyle="destructive"
+        icon="warning"
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingChange(null)}
+      />
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Outputs"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  outputCard: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    padding: FreeShowTheme.spacing.lg,
+    marginBottom: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.md,
+  },
+  outputCardOff: {
+    opacity: 0.7,
+  },
+  outputHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  outputInfo: {
+    flex: 1,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  outputName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.xs,
+  },
+  badge: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.textSecondary,
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    paddingVertical: 1,
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+    overflow: 'hidden',
+  },
+  mainBadge: {
+    color: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  lockedBadge: {
+    color: '#ffc107',
+  },
+  lockButton: {
+    padding: FreeShowTheme.spacing.sm,
+  },
+  styleRow: {
+    gap: FreeShowTheme.spacing.sm,
+  },
+  styleChip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  styleChipSelected: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  styleChipText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  styleChipTextSelected: {
+    color: FreeShowTheme.colors.secondary,
+    fontWeight: '600',
+  },
+});
+
+export default OutputsScreen;
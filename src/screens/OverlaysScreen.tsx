@@ -0,0 +1,295 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { configService } from '../config/AppConfig';
+import { useFreeShowApi } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowOverlay } from '../types';
+
+interface OverlaysScreenProps {
+  navigation: any;
+}
+
+/**
+ * Overlay toggles
+ * Turn FreeShow overlays such as lower thirds and logos on and off one at a time
+ */
+const OverlaysScreen: React.FC<OverlaysScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { output } = useLiveOutput();
+  const [overlays, setOverlays] = useState<FreeShowOverlay[]>([]);
+  // Toggles sent but not yet reflected by the output, so switches don't flick back meanwhile
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+  const pendingTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Last state sent per overlay, shown when the output doesn't report active overlays
+  const [lastSent, setLastSent] = useState<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadOverlays = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOverlays(await api.getOverlays());
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to load overlays',
+        'OverlaysScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load overlays');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadOverlays();
+  }, [loadOverlays]);
+
+  const activeOverlays = output?.activeOverlays;
+
+  useEffect(() => {
+    if (!activeOverlays) return;
+    setPending(current => {
+      const remaining = Object.entries(current).filter(
+        ([id, active]) => activeOverlays.includes(id) !== active
+      );
+      return remaining.length === Object.keys(current).length
+        ? current
+        : Object.fromEntries(remaining);
+    });
+  }, [activeOverlays]);
+
+  const clearPending = useCallback((id: string) => {
+    clearTimeout(pendingTimersRef.current[id]);
+    delete pendingTimersRef.current[id];
+    setPending(current => {
+      if (!(id in current)) return current;
+      const { [id]: _, ...rest } = current;
+      return rest;
+    });
+  }, []);
+
+  useEffect(
+    () => () => {
+      Object.values(pendingTimersRef.current).forEach(clearTimeout);
+    },
+    []
+  );
+
+  const isActive = (id: string) =>
+    pending[id] ?? (activeOverlays ? activeOverlays.includes(id) : !!lastSent[id]);
+
+  const handleToggle = async (overlay: FreeShowOverlay) => {
+    const active = !isActive(overlay.id);
+    clearTimeout(pendingTimersRef.current[overlay.id]);
+    setPending(current => ({ ...current, [overlay.id]: active }));
+    try {
+      await api.setOverlayActive(overlay.id, active);
+      setLastSent(current => ({ ...current, [overlay.id]: active }));
+      // Builds that never report active overlays would otherwise keep the toggle waiting
+      pendingTimersRef.current[overlay.id] = setTimeout(
+        () => clearPending(overlay.id),
+        configService.getNetworkConfig().pendingToggleTimeout
+      );
+    } catch (error) {
+      clearPending(overlay.id);
+      ErrorLogger.error(
+        'Failed to toggle overlay',
+        'OverlaysScreen',
+        error instanceof Error ? error : new Error(String(error)),
+        { overlayId: overlay.id, active }
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to toggle overlay');
+    }
+  };
+
+  const handleClearAll = async () => {
+    try {
+      await api.clearLayer('overlays');
+      Object.keys(pendingTimersRef.current).forEach(clearPending);
+      setPending({});
+      setLastSent({});
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to clear overlays',
+        'OverlaysScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to clear overlays');
+    }
+  };
+
+  const activeCount = overlays.filter(overlay => isActive(overlay.id)).length;
+
+  // Keep FreeShow's overlay categories together, uncategorised overlays last
+  const groups = overlays.reduce<Record<string, FreeShowOverlay[]>>((result, overlay) => {
+    const category = overlay.category || '';
+    (result[category] ||= []).push(overlay);
+    return result;
+  }, {});
+  const categories = Object.keys(groups).sort((a, b) => (!a ? 1 : !b ? -1 : a.localeCompare(b)));
+
+  const renderOverlay = (overlay: FreeShowOverlay) => {
+    const active = isActive(overlay.id);
+    return (
+      <TouchableOpacity
+        key={overlay.id}
+        style={[styles.row, active && styles.rowActive]}
+        onPress={() => handleToggle(overlay)}
+      >
+        <Ionicons
+          name={active ? 'layers' : 'layers-outline'}
+          size={20}
+          color={active ? FreeShowTheme.colors.secondary : FreeShowTheme.colors.textSecondary}
+        />
+        <Text style={styles.rowName} numberOfLines={1}>
+          {overlay.name}
+        </Text>
+        <Switch
+          value={active}
+          onValueChange={() => handleToggle(overlay)}
+          trackColor={{
+            false: FreeShowTheme.colors.primaryLighter,
+            true: FreeShowTheme.colors.secondary,
+          }}
+          thumbColor={FreeShowTheme.colors.text}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Overlays"
+        subtitle={overlays.length ? `${activeCount} of ${overlays.length} on` : null}
+        onBack={() => navigation.goBack()}
+        right={
+          activeCount > 0 ? (
+            <TouchableOpacity style={styles.clearButton} onPress={handleClearAll}>
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </TouchableOpacity>
+          ) : undefined
+        }
+      />
+
+      {isLoading && overlays.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={FreeShowTheme.colors.secondary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={loadOverlays}
+              tintColor={FreeShowTheme.colors.secondary}
+            />
+          }
+        >
+          {overlays.length === 0 && (
+            <Text style={styles.emptyText}>No overlays found in FreeShow</Text>
+          )}
+          {categories.map(category => (
+            <View key={category || 'uncategorised'} style={styles.section}>
+              {categories.length > 1 && (
+                <Text style={styles.sectionTitle}>{category || 'Other'}</Text>
+              )}
+              {groups[category].map(renderOverlay)}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Overlays"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  clearButton: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: '#dc3545',
+  },
+  clearButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  section: {
+    marginBottom: FreeShowTheme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  rowActive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+});
+
+export default OverlaysScreen;
@@ -0,0 +1,207 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Animated, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import OutputSafetyBanner from '../components/OutputSafetyBanner';
+import { OUTPUT_SAFETY_COLORS } from '../components/OutputSafetyControls';
+import { useFreeShowApi, useOutputSafety } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { PresenterGesture, usePresenterGestures } from '../hooks/usePresenterGestures';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface PresenterPadScreenProps {
+  navigation: any;
+}
+
+const GESTURE_LABELS: Record<PresenterGesture, string> = {
+  nextSlide: 'Next slide',
+  previousSlide: 'Previous slide',
+  nextItem: 'Next project item',
+  previousItem: 'Previous project item',
+  longPress: 'Blackout',
+};
+
+const HINTS: { icon: keyof typeof Ionicons.glyphMap; label: string }[] = [
+  { icon: 'swap-horizontal', label: 'Swipe for slides' },
+  { icon: 'hand-left', label: 'Two fingers for project items' },
+  { icon: 'moon', label: 'Hold for blackout, tap the banner to restore' },
+];
+
+/**
+ * Presenter pad
+ * The whole screen takes swipes and long presses, so slides can be driven without looking
+ */
+const PresenterPadScreen: React.FC<PresenterPadScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const outputSafety = useOutputSafety();
+  const { show, slideIndex, slideCount, slideText } = useLiveOutput();
+  const [lastGesture, setLastGesture] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const run = (label: string, command: () => Promise<unknown>) => {
+    setLastGesture(label);
+    command().catch(error => {
+      ErrorLogger.error(
+        `${label} failed`,
+        'PresenterPadScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : `${label} failed`);
+    });
+  };
+
+  // Holding only blacks out, restoring is a deliberate tap on the banner
+  const handleHoldForBlackout = () => {
+    const { mode, isBusy } = outputSafety.state;
+    if (isBusy) return;
+    if (mode === 'blackout') {
+      setLastGesture('Tap the banner to restore');
+    } else if (mode === 'freeze') {
+      setErrorMessage('Outputs are frozen. Restore them before blacking out.');
+    } else {
+      run(GESTURE_LABELS.longPress, () => outputSafety.actions.engage('blackout'));
+    }
+  };
+
+  const { panHandlers, holdProgress } = usePresenterGestures(gesture => {
+    switch (gesture) {
+      case 'nextSlide':
+        run(GESTURE_LABELS.nextSlide, () => api.nextSlide());
+        break;
+      case 'previousSlide':
+        run(GESTURE_LABELS.previousSlide, () => api.previousSlide());
+        break;
+      case 'nextItem':
+        run(GESTURE_LABELS.nextItem, () => api.nextProjectItem());
+        break;
+      case 'previousItem':
+        run(GESTURE_LABELS.previousItem, () => api.previousProjectItem());
+        break;
+      case 'longPress':
+        handleHoldForBlackout();
+        break;
+    }
+  });
+
+  const isBlackout = outputSafety.state.mode === 'blackout';
+  const position =
+    slideIndex !== null && slideCount > 0 ? `${slideIndex + 1} / ${slideCount}` : '– / –';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Presenter Pad"
+        subtitle={show?.name}
+        onBack={() => navigation.goBack()}
+      />
+
+      <OutputSafetyBanner onError={setErrorMessage} />
+
+      <View style={[styles.pad, isBlackout && styles.padBlackout]} {...panHandlers}>
+        <Animated.View
+          pointerEvents="none"
+          style={[
+            styles.holdFill,
+            {
+              width: holdProgress.interpolate({
+                inputRange: [0, 1],
+                outputRange: ['0%', '100%'],
+              }),
+            },
+          ]}
+        />
+
+        <Text style={styles.position}>{position}</Text>
+        <Text style={styles.slideText} numberOfLines={4}>
+          {slideText || (show ? ' ' : 'Nothing is showing')}
+        </Text>
+        <Text style={styles.lastGesture}>{lastGesture ?? ' '}</Text>
+
+        <View style={styles.hints} pointerEvents="none">
+          {HINTS.map(hint => (
+            <View key={hint.label} style={styles.hint}>
+              <Ionicons name={hint.icon} size={16} color={FreeShowTheme.colors.textSecondary} />
+              <Text style={styles.hintText}>{hint.label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Presenter Pad"
+        message={errorMessage ?? ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.background,
+  },
+  pad: {
+    flex: 1,
+    margin: FreeShowTheme.spacing.lg,
+    padding: FreeShowTheme.spacing.xl,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.lg,
+    borderRadius: FreeShowTheme.borderRadius.xl,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    overflow: 'hidden',
+  },
+  padBlackout: {
+    borderColor: OUTPUT_SAFETY_COLORS.blackout,
+    borderWidth: 2,
+  },
+  holdFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    opacity: 0.3,
+    backgroundColor: OUTPUT_SAFETY_COLORS.blackout,
+  },
+  position: {
+    fontSize: 56,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.text,
+  },
+  slideText: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  lastGesture: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.secondary,
+  },
+  hints: {
+    position: 'absolute',
+    bottom: FreeShowTheme.spacing.xl,
+    left: FreeShowTheme.spacing.xl,
+    right: FreeShowTheme.spacing.xl,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  hint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  hintText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+});
+
+export default PresenterPadScreen;
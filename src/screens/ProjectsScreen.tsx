@@ -0,0 +1,309 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { useFreeShowApi } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowProject, FreeShowProjectItem } from '../types';
+
+interface ProjectsScreenProps {
+  navigation: any;
+}
+
+const ITEM_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  show: 'document-text',
+  video: 'videocam',
+  image: 'image',
+  audio: 'musical-notes',
+  section: 'bookmark',
+  pdf: 'document',
+  player: 'logo-youtube',
+};
+
+/**
+ * Project (playlist) browser
+ * Lists projects, expands one into its ordered items and selects any item directly
+ */
+const ProjectsScreen: React.FC<ProjectsScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { output } = useLiveOutput();
+  const [projects, setProjects] = useState<FreeShowProject[]>([]);
+  const [showNames, setShowNames] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ projectId: string; index: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadProjects = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedProjects, shows] = await Promise.all([api.getProjects(), api.getShows()]);
+      setProjects(loadedProjects.sort((a, b) => (b.created ?? 0) - (a.created ?? 0)));
+      setShowNames(Object.fromEntries(shows.map(show => [show.id, show.name])));
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to load projects',
+        'ProjectsScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load projects');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  // Newer FreeShow versions report the active project item, otherwise trust our own selection
+  // while the output still shows it, media and section items have no show ID to check against
+  const liveItem = useMemo(() => {
+    if (output?.projectId && output.projectItemIndex !== undefined) {
+      return { projectId: output.projectId, index: output.projectItemIndex };
+    }
+    if (!selected) return null;
+    const item = projects.find(project => project.id === selected.projectId)?.shows[selected.index];
+    if (!item) return null;
+    const isShow = (item.type || 'show') === 'show';
+    return !isShow || item.id === output?.showId ? selected : null;
+  }, [projects, selected, output?.projectId, output?.projectItemIndex, output?.showId]);
+
+  const handleSelectItem = async (projectId: string, index: number) => {
+    try {
+      await api.selectProjectItem(projectId, index);
+      setSelected({ projectId, index });
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to select project item',
+        'ProjectsScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to select item');
+    }
+  };
+
+  const getItemName = (item: FreeShowProjectItem) => item.name || showNames[item.id] || item.id;
+
+  const renderItem = (project: FreeShowProject, item: FreeShowProjectItem, index: number) => {
+    const type = item.type || 'show';
+    const isLive = liveItem?.projectId === project.id && liveItem.index === index;
+    const isSection = type === 'section';
+
+    return (
+      <TouchableOpacity
+        key={`${item.id}-${index}`}
+        style={[styles.itemRow, isSection && styles.sectionRow, isLive && styles.itemRowLive]}
+        onPress={() => handleSelectItem(project.id, index)}
+      >
+        <Ionicons
+          name={ITEM_ICONS[type] || 'ellipse'}
+          size={18}
+          color={isLive ? FreeShowTheme.colors.secondary : FreeShowTheme.colors.textSecondary}
+        />
+        <Text style={[styles.itemName, isSection && styles.sectionName]} numberOfLines={1}>
+          {getItemName(item)}
+        </Text>
+        {isLive && (
+          <View style={styles.liveBadge}>
+            <Text style={styles.liveText}>LIVE</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Projects"
+        subtitle={projects.length ? `${projects.length} projects` : null}
+        onBack={() => navigation.goBack()}
+      />
+
+      {isLoading && projects.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={FreeShowTheme.colors.secondary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={loadProjects}
+              tintColor={FreeShowTheme.colors.secondary}
+            />
+          }
+        >
+          {projects.length === 0 && (
+            <Text style={styles.emptyText}>No projects found in FreeShow</Text>
+          )}
+
+          {projects.map(project => {
+            const isExpanded = expandedId === project.id;
+            return (
+              <View key={project.id} style={styles.projectCard}>
+                <TouchableOpacity
+                  style={styles.projectHeader}
+                  onPress={() => setExpandedId(isExpanded ? null : project.id)}
+                >
+                  <Ionicons
+                    name={isExpanded ? 'folder-open' : 'folder'}
+                    size={22}
+                    color={FreeShowTheme.colors.secondary}
+                  />
+                  <View style={styles.projectInfo}>
+                    <Text style={styles.projectName} numberOfLines={1}>
+                      {project.name}
+                    </Text>
+                    <Text style={styles.projectMeta}>{project.shows.length} items</Text>
+                  </View>
+                  {liveItem?.projectId === project.id && <View style={styles.liveDot} />}
+                  <Ionicons
+                    name={isExpanded ? 'chevron-up' : 'chevron-down'}
+                    size={20}
+                    color={FreeShowTheme.colors.textSecondary}
+                  />
+                </TouchableOpacity>
+
+                {isExpanded && (
+                  <View style={styles.itemList}>
+                    {project.shows.length === 0 ? (
+                      <Text style={styles.emptyItemsText}>This project is empty</Text>
+                    ) : (
+                      project.shows.map((item, index) => renderItem(project, item, index))
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Projects"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  projectCard: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    marginBottom: FreeShowTheme.spacing.md,
+    overflow: 'hidden',
+  },
+  projectHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: FreeShowTheme.spacing.lg,
+    gap: FreeShowTheme.spacing.md,
+  },
+  projectInfo: {
+    flex: 1,
+  },
+  projectName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  projectMeta: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  itemList: {
+    borderTopWidth: 1,
+    borderTopColor: FreeShowTheme.colors.primaryLighter,
+  },
+  emptyItemsText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+    padding: FreeShowTheme.spacing.lg,
+    fontStyle: 'italic',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    gap: FreeShowTheme.spacing.md,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  itemRowLive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  sectionRow: {
+    backgroundColor: FreeShowTheme.colors.primaryDarkest,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.text,
+  },
+  sectionName: {
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  liveBadge: {
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  liveText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: 'white',
+  },
+});
+
+export default ProjectsScreen;
@@ -0,0 +1,458 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { useFreeShowApi } from '../contexts';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowBible, FreeShowScriptureVerse } from '../types';
+import {
+  formatScriptureReference,
+  parseScriptureReference,
+  ScriptureReference,
+} from '../utils/scriptureUtils';
+
+interface ScriptureScreenProps {
+  navigation: any;
+}
+
+/**
+ * Scripture lookup
+ * Parses a typed reference, previews its chapter and sends verses to the output one by one
+ */
+const ScriptureScreen: React.FC<ScriptureScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const [bibles, setBibles] = useState<FreeShowBible[]>([]);
+  const [bibleId, setBibleId] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [reference, setReference] = useState<ScriptureReference | null>(null);
+  const [verses, setVerses] = useState<FreeShowScriptureVerse[]>([]);
+  const [liveRange, setLiveRange] = useState<{ start: number; end: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const listRef = useRef<FlatList<FreeShowScriptureVerse>>(null);
+
+  const reportError = (message: string, error: unknown) => {
+    ErrorLogger.error(
+      message,
+      'ScriptureScreen',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    setErrorMessage(error instanceof Error ? error.message : message);
+  };
+
+  useEffect(() => {
+    api
+      .getBibles()
+      .then(loaded => {
+        setBibles(loaded);
+        setBibleId(current => current ?? loaded[0]?.id ?? null);
+      })
+      .catch(error => reportError('Failed to load bibles', error));
+  }, [api]);
+
+  // Preview always loads the whole chapter so verse stepping can move past the typed range
+  const loadChapter = async (
+    target: ScriptureReference
+  ): Promise<FreeShowScriptureVerse[] | null> => {
+    if (!bibleId) return null;
+
+    setIsLoading(true);
+    try {
+      const chapterRef = formatScriptureReference({ book: target.book, chapter: target.chapter });
+      const loaded = await api.getScripture(bibleId, chapterRef);
+
+      // The parser can't know the chapter length, so a verse past the end shows up only now
+      const lastVerse = loaded[loaded.length - 1]?.number ?? 0;
+      const lastRequested = target.endVerse ?? target.startVerse ?? 0;
+      if (loaded.length > 0 && lastRequested > lastVerse) {
+        setParseError(`${chapterRef} has ${lastVerse} verses`);
+        return null;
+      }
+
+      setVerses(loaded);
+      setReference(target);
+
+      const firstIndex = loaded.findIndex(verse => verse.number === target.startVerse);
+      if (firstIndex > 0) {
+        setTimeout(() => listRef.current?.scrollToIndex({ index: firstIndex, animated: true }), 0);
+      }
+      return loaded;
+    } catch (error) {
+      reportError('Failed to load scripture', error);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const result = parseScriptureReference(input);
+    if (!result.isValid) {
+      setParseError(result.error);
+      return;
+    }
+    setParseError(null);
+    setLiveRange(null);
+    setInput(formatScriptureReference(result.reference));
+    await loadChapter(result.reference);
+  };
+
+  const sendReference = async (target: ScriptureReference) => {
+    if (!bibleId) return;
+    try {
+      await api.showScripture(bibleId, formatScriptureReference(target));
+      setLiveRange(
+        target.startVerse
+          ? { start: target.startVerse, end: target.endVerse ?? target.startVerse }
+          : null
+      );
+    } catch (error) {
+      reportError('Failed to send scripture', error);
+    }
+  };
+
+  const handleSendToOutput = () => {
+    if (!reference) return;
+    sendReference(reference.startVerse ? reference : { ...reference, startVerse: 1 });
+  };
+
+  const handleStep = async (direction: 1 | -1) => {
+    if (!reference) return;
+
+    const lastVerse = verses[verses.length - 1]?.number ?? 0;
+    // Step on from the edge of the range in the direction of travel
+    const live = liveRange ?? {
+      start: reference.startVerse ?? 0,
+      end: reference.endVerse ?? reference.startVerse ?? 0,
+    };
+    const current = direction === 1 ? live.end : live.start;
+    const next = current + direction;
+
+    if (next >= 1 && next <= lastVerse) {
+      await sendReference({ ...reference, startVerse: next, endVerse: undefined });
+      return;
+    }
+
+    // Cross into the neighbouring chapter
+    const chapter = reference.chapter + direction;
+    if (chapter < 1 || chapter > reference.book.chapters) return;
+
+    const loaded = await loadChapter({ book: reference.book, chapter });
+    if (!loaded?.length) return;
+
+    const target: ScriptureReference = {
+      book: reference.book,
+      chapter,
+      startVerse: direction === 1 ? loaded[0].number : loaded[loaded.length - 1].number,
+    };
+    setReference(target);
+    setInput(formatScriptureReference(target));
+    await sendReference(target);
+  };
+
+  const isInRange = (verse: number) =>
+    !!reference?.startVerse &&
+    verse >= reference.startVerse &&
+    verse <= (reference.endVerse ?? reference.startVerse);
+
+  const renderVerse = ({ item }: { item: FreeShowScriptureVerse }) => {
+    const isLive = !!liveRange && item.number >= liveRange.start && item.number <= liveRange.end;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.verseRow,
+          isInRange(item.number) && styles.verseRowInRange,
+          isLive && styles.verseRowLive,
+        ]}
+        onPress={() =>
+          reference && sendReference({ ...reference, startVerse: item.number, endVerse: undefined })
+        }
+      >
+        <Text style={[styles.verseNumber, isLive && styles.verseNumberLive]}>{item.number}</Text>
+        <Text style={styles.verseText}>{item.text}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Scripture"
+        subtitle={bibles.find(bible => bible.id === bibleId)?.name}
+        onBack={() => navigation.goBack()}
+      />
+
+      {bibles.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.bibleBar}
+          contentContainerStyle={styles.bibleBarContent}
+        >
+          {bibles.map(bible => (
+            <TouchableOpacity
+              key={bible.id}
+              style={[styles.bibleChip, bible.id === bibleId && styles.bibleChipActive]}
+              onPress={() => setBibleId(bible.id)}
+            >
+              <Text
+                style={[styles.bibleChipText, bible.id === bibleId && styles.bibleChipTextActive]}
+              >
+                {bible.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.inputSection}>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.referenceInput, parseError && styles.referenceInputError]}
+            value={input}
+            onChangeText={text => {
+              setInput(text);
+              setParseError(null);
+            }}
+            onSubmitEditing={handlePreview}
+            placeholder="e.g. John 3:16-18"
+            placeholderTextColor={FreeShowTheme.colors.textSecondary}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          <TouchableOpacity
+            style={[styles.previewButton, (!input.trim() || !bibleId) && styles.buttonDisabled]}
+            onPress={handlePreview}
+            disabled={!input.trim() || !bibleId}
+          >
+            <Ionicons name="search" size={20} color="white" />
+          </TouchableOpacity>
+        </View>
+        {parseError && <Text style={styles.parseError}>{parseError}</Text>}
+        {!bibleId && bibles.length === 0 && (
+          <Text style={styles.parseError}>No bibles are installed in FreeShow</Text>
+        )}
+      </View>
+
+      <View style={styles.previewContainer}>
+        {isLoading ? (
+          <ActivityIndicator
+            style={styles.loader}
+            size="large"
+            color={FreeShowTheme.colors.secondary}
+          />
+        ) : (
+          <FlatList
+            ref={listRef}
+            data={verses}
+            keyExtractor={item => String(item.number)}
+            renderItem={renderVerse}
+            contentContainerStyle={styles.verseList}
+            onScrollToIndexFailed={({ index }) =>
+              setTimeout(() => listRef.current?.scrollToIndex({ index, animated: false }), 100)
+            }
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>Look up a reference to preview it here</Text>
+            }
+          />
+        )}
+      </View>
+
+      <View style={styles.controlRow}>
+        <TouchableOpacity
+          style={[styles.stepButton, !reference && styles.buttonDisabled]}
+          onPress={() => handleStep(-1)}
+          disabled={!reference}
+        >
+          <Ionicons name="chevron-back" size={24} color="white" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.sendButton, !reference && styles.buttonDisabled]}
+          onPress={handleSendToOutput}
+          disabled={!reference}
+        >
+          <Ionicons name="tv" size={20} color="white" />
+          <Text style={styles.sendButtonText}>
+            {reference ? `Show ${formatScriptureReference(reference)}` : 'Show'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.stepButton, !reference && styles.buttonDisabled]}
+          onPress={() => handleStep(1)}
+          disabled={!reference}
+        >
+          <Ionicons name="chevron-forward" size={24} color="white" />
+        </TouchableOpacity>
+      </View>
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Scripture"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  bibleBar: {
+    flexGrow: 0,
+  },
+  bibleBarContent: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingTop: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  bibleChip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  bibleChipActive: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  bibleChipText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  bibleChipTextActive: {
+    color: FreeShowTheme.colors.secondary,
+    fontWeight: '600',
+  },
+  inputSection: {
+    padding: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  referenceInput: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  referenceInputError: {
+    borderColor: '#dc3545',
+  },
+  previewButton: {
+    width: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  parseError: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: '#dc3545',
+  },
+  previewContainer: {
+    flex: 1,
+  },
+  loader: {
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  verseList: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingBottom: FreeShowTheme.spacing.md,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  verseRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  verseRowInRange: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  verseRowLive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  verseNumber: {
+    minWidth: 24,
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  verseNumberLive: {
+    color: FreeShowTheme.colors.secondary,
+  },
+  verseText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+    lineHeight: 22,
+  },
+  controlRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  stepButton: {
+    width: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  sendButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    paddingVertical: FreeShowTheme.spacing.lg,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  sendButtonText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: 'white',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default ScriptureScreen;
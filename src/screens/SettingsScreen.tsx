@@ -1,5 +1,4 @@
 import { Ionicons } from '@expo/vector-icons';
-import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 import { LinearGradient } from 'expo-linear-gradient';
 import React, { useEffect, useState } from 'react';
 import {
@@ -16,7 +15,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { configService } from '../config/AppConfig';
-import { useSettings } from '../contexts';
+import { useClickerMode, useSettings } from '../contexts';
 import { FreeShowTheme } from '../theme/FreeShowTheme';
 import { ShowOption } from '../types';
 import { getNavigationLayoutInfo } from '../utils/navigationUtils';
@@ -27,6 +26,7 @@ interface SettingsScreenProps {
 
 const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const { settings, history, actions } = useSettings();
+  const clickerMode = useClickerMode();
   const [autoReconnect, setAutoReconnect] = useState(settings?.autoReconnect || false);
   const [autoLaunchInterface, setAutoLaunchInterface] = useState(
     settings?.autoLaunchInterface || 'none'
@@ -65,13 +65,6 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
     }
   }, [settings]);
 
-  useEffect(() => {
-    if (keepAwake) {
-      activateKeepAwakeAsync();
-    } else {
-      deactivateKeepAwake();
-    }
-  }, [keepAwake]);
   const handleKeepAwakeToggle = async (value: boolean) => {
     setKeepAwake(value);
     await actions.updateSettings({ keepAwake: value });
@@ -214,6 +207,54 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
                 {/* <View style={styles.settingDivider} /> */}
               </View>
 
+              {/* Presenting Section - clicker input only reaches web and TV builds */}
+              {clickerMode.state.isSupported && (
+                <>
+                  <View style={styles.sectionSeparator}>
+                    <View style={styles.separatorLine} />
+                    <Text style={styles.separatorText}>PRESENTING</Text>
+                    <View style={styles.separatorLine} />
+                  </View>
+
+                  <View style={styles.settingsCard}>
+                    {/* Clicker Mode Toggle - for this session only */}
+                    <TouchableOpacity style={styles.settingItem} activeOpacity={0.7}>
+                      <View style={styles.settingInfo}>
+                        <View style={styles.settingTitleRow}>
+                          <View style={styles.iconContainer}>
+                            <Ionicons
+                              name="hand-right"
+                              size={20}
+                              color={FreeShowTheme.colors.secondary}
+                            />
+                          </View>
+                          <Text style={styles.settingTitle}>Clicker Mode</Text>
+                        </View>
+                        <Text style={styles.settingDescription}>
+                          Change slides with a page-turner, keyboard arrows or a TV remote. Turns
+                          off when the app closes
+                        </Text>
+                      </View>
+                      <Switch
+                        value={clickerMode.state.enabled}
+                        onValueChange={clickerMode.actions.setEnabled}
+                        trackColor={{
+                          false: FreeShowTheme.colors.primaryLighter,
+                          true: FreeShowTheme.colors.secondary + '60',
+                        }}
+                        thumbColor={
+                          clickerMode.state.enabled
+                            ? FreeShowTheme.colors.secondary
+                            : FreeShowTheme.colors.text
+                        }
+                        ios_backgroundColor={FreeShowTheme.colors.primaryLighter}
+                        style={styles.switch}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+
               {/* Auto Connection Section */}
               <View style={styles.sectionSeparator}>
                 <View style={styles.separatorLine} />
@@ -0,0 +1,380 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { useConnectionState, useFreeShowApi } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { settingsRepository } from '../repositories';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowShow } from '../types';
+import { fuzzyFilter } from '../utils/fuzzySearch';
+
+interface ShowLibraryScreenProps {
+  navigation: any;
+}
+
+interface ShowSection {
+  key: string;
+  title: string;
+  data: FreeShowShow[];
+}
+
+const UNCATEGORIZED = '__uncategorized__';
+
+const formatCategory = (category: string): string =>
+  category === UNCATEGORIZED
+    ? 'Uncategorized'
+    : category.charAt(0).toUpperCase() + category.slice(1);
+
+/**
+ * Show library with fuzzy search, category grouping and recently used shows
+ */
+const ShowLibraryScreen: React.FC<ShowLibraryScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { connectionHost } = useConnectionState();
+  const { output } = useLiveOutput();
+  const [shows, setShows] = useState<FreeShowShow[]>([]);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadShows = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loadedShows = await api.getShows();
+      setShows(loadedShows.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to load shows',
+        'ShowLibraryScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load shows');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadShows();
+  }, [loadShows]);
+
+  useEffect(() => {
+    if (!connectionHost) {
+      setRecentIds([]);
+      return;
+    }
+
+    let cancelled = false;
+    settingsRepository.getRecentShows(connectionHost).then(recent => {
+      if (!cancelled) setRecentIds(recent);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionHost]);
+
+  const categories = useMemo(() => {
+    const found = new Set(shows.map(show => show.category || UNCATEGORIZED));
+    return Array.from(found).sort((a, b) =>
+      a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b)
+    );
+  }, [shows]);
+
+  const sections = useMemo<ShowSection[]>(() => {
+    const inCategory = category
+      ? shows.filter(show => (show.category || UNCATEGORIZED) === category)
+      : shows;
+
+    if (query.trim()) {
+      const results = fuzzyFilter(inCategory, query, show => [
+        show.name,
+        show.category && formatCategory(show.category),
+      ]);
+      return [{ key: 'results', title: `${results.length} results`, data: results }];
+    }
+
+    const result: ShowSection[] = [];
+    if (!category) {
+      const recent = recentIds
+        .map(id => shows.find(show => show.id === id))
+        .filter((show): show is FreeShowShow => !!show);
+      if (recent.length > 0) {
+        result.push({ key: 'recent', title: 'Recently used', data: recent });
+      }
+    }
+
+    categories
+      .filter(name => !category || name === category)
+      .forEach(name => {
+        const data = inCategory.filter(show => (show.category || UNCATEGORIZED) === name);
+        if (data.length > 0) {
+          result.push({ key: `category-${name}`, title: formatCategory(name), data });
+        }
+      });
+    return result;
+  }, [shows, recentIds, categories, category, query]);
+
+  const handleSelectShow = async (show: FreeShowShow) => {
+    try {
+      await api.selectShow(show.id);
+      if (connectionHost) {
+        setRecentIds(await settingsRepository.addRecentShow(connectionHost, show.id));
+      }
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to select show',
+        'ShowLibraryScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to select show');
+    }
+  };
+
+  const renderShow = ({ item }: { item: FreeShowShow }) => {
+    const isLive = item.id === output?.showId;
+    return (
+      <TouchableOpacity
+        style={[styles.showRow, isLive && styles.showRowLive]}
+        onPress={() => handleSelectShow(item)}
+      >
+        <Ionicons
+          name="document-text"
+          size={18}
+          color={isLive ? FreeShowTheme.colors.secondary : FreeShowTheme.colors.textSecondary}
+        />
+        <View style={styles.showInfo}>
+          <Text style={styles.showName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          {item.category && query.trim() ? (
+            <Text style={styles.showCategory}>{formatCategory(item.category)}</Text>
+          ) : null}
+        </View>
+        {isLive && (
+          <View style={styles.liveBadge}>
+            <Text style={styles.liveText}>LIVE</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Show Library"
+        subtitle={shows.length ? `${shows.length} shows` : null}
+        onBack={() => navigation.goBack()}
+      />
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={FreeShowTheme.colors.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search shows"
+          placeholderTextColor={FreeShowTheme.colors.textSecondary}
+          autoCorrect={false}
+          autoCapitalize="none"
+          clearButtonMode="while-editing"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={18} color={FreeShowTheme.colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {categories.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.chipBar}
+          contentContainerStyle={styles.chipBarContent}
+        >
+          {[null, ...categories].map(name => (
+            <TouchableOpacity
+              key={name ?? 'all'}
+              style={[styles.chip, category === name && styles.chipActive]}
+              onPress={() => setCategory(name)}
+            >
+              <Text style={[styles.chipText, category === name && styles.chipTextActive]}>
+                {name ? formatCategory(name) : 'All'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {isLoading && shows.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={FreeShowTheme.colors.secondary} />
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item, index) => `${item.id}-${index}`}
+          renderItem={renderShow}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          stickySectionHeadersEnabled
+          keyboardShouldPersistTaps="handled"
+          initialNumToRender={30}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {query.trim() ? `No shows match "${query.trim()}"` : 'No shows found in FreeShow'}
+            </Text>
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={loadShows}
+              tintColor={FreeShowTheme.colors.secondary}
+            />
+          }
+        />
+      )}
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Show Library"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.sm,
+    margin: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: FreeShowTheme.spacing.md,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  chipBar: {
+    flexGrow: 0,
+  },
+  chipBarContent: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingBottom: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+  },
+  chipActive: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  chipText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: FreeShowTheme.colors.secondary,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: FreeShowTheme.spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    backgroundColor: FreeShowTheme.colors.primary,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    paddingVertical: FreeShowTheme.spacing.sm,
+  },
+  showRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: FreeShowTheme.colors.primaryDarker,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  showRowLive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  showInfo: {
+    flex: 1,
+  },
+  showName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  showCategory: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  liveBadge: {
+    paddingHorizontal: FreeShowTheme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: FreeShowTheme.borderRadius.sm,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  liveText: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: 'white',
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+});
+
+export default ShowLibraryScreen;
@@ -0,0 +1,218 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import SlideThumbnail from '../components/SlideThumbnail';
+import { useFreeShowApi } from '../contexts';
+import { useLiveOutput } from '../hooks/useLiveOutput';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowSlide } from '../types';
+import { getSlideText } from '../utils/slideUtils';
+
+interface SlidesScreenProps {
+  navigation: any;
+}
+
+/**
+ * Slide browser for the show that is live in FreeShow
+ * Tapping a card jumps the output to that slide
+ */
+const SlidesScreen: React.FC<SlidesScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const live = useLiveOutput();
+  const { show, slides, slideIndex, layoutName, output, isLoading } = live;
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const numColumns = Dimensions.get('window').width >= 768 ? 3 : 2;
+
+  const handleSelectSlide = async (index: number) => {
+    try {
+      await api.selectSlide(index, output?.showId, output?.layoutId);
+    } catch (error) {
+      ErrorLogger.error(
+        'Failed to select slide',
+        'SlidesScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to select slide');
+    }
+  };
+
+  const renderSlide = ({ item, index }: { item: FreeShowSlide; index: number }) => {
+    const isLive = index === slideIndex;
+    const groupColor = item.color || FreeShowTheme.colors.primaryLighter;
+
+    return (
+      <TouchableOpacity
+        style={[styles.slideCard, isLive && styles.slideCardLive]}
+        onPress={() => handleSelectSlide(index)}
+        disabled={item.missing}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.groupBar, { backgroundColor: groupColor }]} />
+        <View style={styles.slideBody}>
+          <View style={styles.slideHeader}>
+            <Text style={styles.slideNumber}>{index + 1}</Text>
+            {item.group ? (
+              <Text
+                style={[
+                  styles.groupLabel,
+                  { color: item.color || FreeShowTheme.colors.textSecondary },
+                ]}
+                numberOfLines={1}
+              >
+                {item.group}
+              </Text>
+            ) : null}
+            {isLive && <View style={styles.liveDot} />}
+          </View>
+          <SlideThumbnail showId={output?.showId} index={index} layoutId={output?.layoutId} />
+          <Text style={styles.slideText} numberOfLines={2}>
+            {item.missing ? 'Missing slide' : getSlideText(item) || ' '}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title={show?.name || 'Slides'}
+        subtitle={layoutName}
+        onBack={() => navigation.goBack()}
+      />
+
+      {!show ? (
+        <View style={styles.centerContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={FreeShowTheme.colors.secondary} />
+          ) : (
+            <>
+              <Ionicons
+                name="albums-outline"
+                size={64}
+                color={FreeShowTheme.colors.textSecondary}
+              />
+              <Text style={styles.emptyText}>No show is live</Text>
+              <Text style={styles.emptySubtext}>
+                Select a show in FreeShow or from the show library to browse its slides.
+              </Text>
+            </>
+          )}
+        </View>
+      ) : (
+        <FlatList
+          key={numColumns}
+          data={slides}
+          numColumns={numColumns}
+          keyExtractor={(item, index) => `${item.id}-${index}`}
+          renderItem={renderSlide}
+          contentContainerStyle={styles.grid}
+          columnWrapperStyle={styles.gridRow}
+        />
+      )}
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Command Failed"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: FreeShowTheme.spacing.xl,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.lg,
+    color: FreeShowTheme.colors.textSecondary,
+    marginTop: FreeShowTheme.spacing.lg,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    marginTop: FreeShowTheme.spacing.md,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  grid: {
+    padding: FreeShowTheme.spacing.md,
+  },
+  gridRow: {
+    gap: FreeShowTheme.spacing.md,
+    marginBottom: FreeShowTheme.spacing.md,
+  },
+  slideCard: {
+    flex: 1,
+    minHeight: 110,
+    flexDirection: 'row',
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 2,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    overflow: 'hidden',
+  },
+  slideCardLive: {
+    borderColor: FreeShowTheme.colors.secondary,
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  groupBar: {
+    width: 6,
+  },
+  slideBody: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.sm,
+    gap: FreeShowTheme.spacing.xs,
+  },
+  slideHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.xs,
+  },
+  slideNumber: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  groupLabel: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '600',
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 'auto',
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  slideText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.text,
+  },
+});
+
+export default SlidesScreen;
@@ -0,0 +1,285 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { useFreeShowApi } from '../contexts';
+import { settingsRepository, StageMessage } from '../repositories';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+
+interface StageMessagesScreenProps {
+  navigation: any;
+}
+
+/**
+ * Stage message composer
+ * Sends short messages to the stage display, with saved and recent messages for one-tap reuse
+ */
+const StageMessagesScreen: React.FC<StageMessagesScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const [draft, setDraft] = useState('');
+  const [messages, setMessages] = useState<StageMessage[]>([]);
+  const [onStage, setOnStage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    settingsRepository.getStageMessages().then(setMessages);
+  }, []);
+
+  const reportError = (message: string, error: unknown) => {
+    ErrorLogger.error(
+      message,
+      'StageMessagesScreen',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    setErrorMessage(error instanceof Error ? error.message : message);
+  };
+
+  const handleSend = async (text: string) => {
+    const message = text.trim();
+    if (!message) return;
+
+    try {
+      await api.sendStageMessage(message);
+      setOnStage(message);
+      setDraft('');
+      setMessages(await settingsRepository.recordStageMessage(message));
+    } catch (error) {
+      reportError('Failed to send stage message', error);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await api.clearStageMessage();
+      setOnStage(null);
+    } catch (error) {
+      reportError('Failed to clear stage message', error);
+    }
+  };
+
+  const handleToggleSaved = async (message: StageMessage) => {
+    try {
+      setMessages(await settingsRepository.setStageMessageSaved(message.id, !message.saved));
+    } catch (error) {
+      reportError('Failed to update saved messages', error);
+    }
+  };
+
+  const handleRemove = async (message: StageMessage) => {
+    try {
+      setMessages(await settingsRepository.removeStageMessage(message.id));
+    } catch (error) {
+      reportError('Failed to remove message', error);
+    }
+  };
+
+  const savedMessages = messages.filter(message => message.saved);
+  const recentMessages = messages.filter(message => !message.saved);
+
+  const renderMessage = (message: StageMessage) => {
+    const isOnStage = message.text === onStage;
+    return (
+      <View key={message.id} style={[styles.messageRow, isOnStage && styles.messageRowLive]}>
+        <TouchableOpacity style={styles.messageBody} onPress={() => handleSend(message.text)}>
+          <Text style={styles.messageText} numberOfLines={2}>
+            {message.text}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleToggleSaved(message)}>
+          <Ionicons
+            name={message.saved ? 'star' : 'star-outline'}
+            size={20}
+            color={message.saved ? '#ffc107' : FreeShowTheme.colors.textSecondary}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(message)}>
+          <Ionicons name="trash-outline" size={20} color={FreeShowTheme.colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader title="Stage Messages" onBack={() => navigation.goBack()} />
+
+      <View style={styles.stageStatus}>
+        <View style={[styles.statusDot, onStage ? styles.statusDotLive : null]} />
+        <Text style={styles.stageText} numberOfLines={2}>
+          {onStage ? onStage : 'No message on stage'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.clearButton, !onStage && styles.buttonDisabled]}
+          onPress={handleClear}
+        >
+          <Text style={styles.clearButtonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.composer}>
+        <TextInput
+          style={styles.composerInput}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Type a message for the stage"
+          placeholderTextColor={FreeShowTheme.colors.textSecondary}
+          multiline
+          maxLength={200}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, !draft.trim() && styles.buttonDisabled]}
+          onPress={() => handleSend(draft)}
+          disabled={!draft.trim()}
+        >
+          <Ionicons name="send" size={20} color="white" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {savedMessages.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Saved</Text>
+            {savedMessages.map(renderMessage)}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Recent</Text>
+          {recentMessages.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Messages you send show up here. Star one to keep it.
+            </Text>
+          ) : (
+            recentMessages.map(renderMessage)
+          )}
+        </View>
+      </ScrollView>
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Stage Messages"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  stageStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+    margin: FreeShowTheme.spacing.md,
+    padding: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  statusDotLive: {
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  stageText: {
+    flex: 1,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  clearButton: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: '#dc3545',
+  },
+  clearButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+  composer: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.sm,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+  },
+  composerInput: {
+    flex: 1,
+    minHeight: 48,
+    maxHeight: 120,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.md,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  sendButton: {
+    width: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.md,
+  },
+  section: {
+    marginBottom: FreeShowTheme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    color: FreeShowTheme.colors.textSecondary,
+    marginBottom: FreeShowTheme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: FreeShowTheme.spacing.sm,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  messageRowLive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+    borderLeftColor: FreeShowTheme.colors.secondary,
+  },
+  messageBody: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.md,
+  },
+  messageText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  iconButton: {
+    padding: FreeShowTheme.spacing.md,
+  },
+});
+
+export default StageMessagesScreen;
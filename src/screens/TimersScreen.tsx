@@ -0,0 +1,385 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import APIPanelHeader from '../components/APIPanelHeader';
+import ErrorModal from '../components/ErrorModal';
+import { useFreeShowApi } from '../contexts';
+import { useTimers } from '../hooks/useTimers';
+import { ErrorLogger } from '../services/ErrorLogger';
+import { FreeShowTheme } from '../theme/FreeShowTheme';
+import { FreeShowTimer } from '../types';
+import { formatTimerSeconds, parseMinutes } from '../utils/timerUtils';
+
+interface TimersScreenProps {
+  navigation: any;
+}
+
+const MINUTE_PRESETS = [1, 5, 10, 15, 30];
+
+/**
+ * Timer control panel
+ * Lists FreeShow's timers with the remaining time FreeShow reports and controls for each
+ */
+const TimersScreen: React.FC<TimersScreenProps> = ({ navigation }) => {
+  const api = useFreeShowApi();
+  const { timers, isLoading, refresh } = useTimers();
+  const [editingTimerId, setEditingTimerId] = useState<string | null>(null);
+  const [minutesInput, setMinutesInput] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newTimerName, setNewTimerName] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const runTimerCommand = async (description: string, command: () => Promise<void>) => {
+    try {
+      await command();
+      await refresh();
+    } catch (error) {
+      ErrorLogger.error(
+        `Failed to ${description}`,
+        'TimersScreen',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      setErrorMessage(error instanceof Error ? error.message : `Failed to ${description}`);
+    }
+  };
+
+  const handleSetMinutes = (timer: FreeShowTimer, seconds: number | null) => {
+    if (seconds === null) {
+      setErrorMessage('Enter a number of minutes greater than zero');
+      return;
+    }
+    setEditingTimerId(null);
+    setMinutesInput('');
+    runTimerCommand('set timer', () => api.setTimer(timer.id, seconds));
+  };
+
+  const handleCreate = (seconds: number | null) => {
+    if (seconds === null) {
+      setErrorMessage('Enter a number of minutes greater than zero');
+      return;
+    }
+    const name = newTimerName.trim() || `Countdown ${formatTimerSeconds(seconds)}`;
+    setIsCreating(false);
+    setNewTimerName('');
+    setMinutesInput('');
+    runTimerCommand('create timer', () => api.createTimer(name, seconds));
+  };
+
+  const renderMinutesEditor = (onSubmit: (seconds: number | null) => void, submitLabel: string) => (
+    <View style={styles.editor}>
+      <View style={styles.presetRow}>
+        {MINUTE_PRESETS.map(minutes => (
+          <TouchableOpacity
+            key={minutes}
+            style={styles.presetChip}
+            onPress={() => onSubmit(minutes * 60)}
+          >
+            <Text style={styles.presetText}>{minutes}m</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.editorRow}>
+        <TextInput
+          style={styles.minutesInput}
+          value={minutesInput}
+          onChangeText={setMinutesInput}
+          placeholder="Minutes"
+          placeholderTextColor={FreeShowTheme.colors.textSecondary}
+          keyboardType="decimal-pad"
+          onSubmitEditing={() => onSubmit(parseMinutes(minutesInput))}
+        />
+        <TouchableOpacity
+          style={styles.editorButton}
+          onPress={() => onSubmit(parseMinutes(minutesInput))}
+        >
+          <Text style={styles.editorButtonText}>{submitLabel}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderTimer = (timer: FreeShowTimer) => {
+    const isEditing = editingTimerId === timer.id;
+    const isOvertime = timer.remaining !== null && timer.remaining < 0;
+    const canControl = timer.type !== 'clock';
+
+    return (
+      <View key={timer.id} style={[styles.timerCard, timer.isRunning && styles.timerCardRunning]}>
+        <View style={styles.timerHeader}>
+          <View style={styles.timerInfo}>
+            <Text style={styles.timerName} numberOfLines={1}>
+              {timer.name}
+            </Text>
+            <Text style={styles.timerStatus}>
+              {timer.isPaused ? 'Paused' : timer.isRunning ? 'Running' : 'Stopped'}
+            </Text>
+          </View>
+          <Text style={[styles.timerTime, isOvertime && styles.timerTimeOvertime]}>
+            {formatTimerSeconds(timer.remaining)}
+          </Text>
+        </View>
+
+        {canControl && (
+          <View style={styles.controlRow}>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.primaryControl]}
+              onPress={() =>
+                timer.isRunning && !timer.isPaused
+                  ? runTimerCommand('pause timer', () => api.pauseTimer(timer.id))
+                  : runTimerCommand('start timer', () => api.startTimer(timer.id))
+              }
+            >
+              <Ionicons
+                name={timer.isRunning && !timer.isPaused ? 'pause' : 'play'}
+                size={20}
+                color="white"
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => runTimerCommand('reset timer', () => api.resetTimer(timer.id))}
+            >
+              <Ionicons name="refresh" size={20} color={FreeShowTheme.colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, isEditing && styles.controlButtonActive]}
+              onPress={() => {
+                setEditingTimerId(isEditing ? null : timer.id);
+                setMinutesInput('');
+              }}
+            >
+              <Text style={styles.controlButtonText}>Set</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isEditing && renderMinutesEditor(seconds => handleSetMinutes(timer, seconds), 'Set')}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <APIPanelHeader
+        title="Timers"
+        subtitle={timers.length ? `${timers.filter(t => t.isRunning).length} running` : null}
+        onBack={() => navigation.goBack()}
+        right={
+          <TouchableOpacity
+            onPress={() => {
+              setIsCreating(!isCreating);
+              setMinutesInput('');
+            }}
+          >
+            <Ionicons
+              name={isCreating ? 'close' : 'add'}
+              size={24}
+              color={FreeShowTheme.colors.text}
+            />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView
+        style={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={false}
+            onRefresh={refresh}
+            tintColor={FreeShowTheme.colors.secondary}
+          />
+        }
+      >
+        {isCreating && (
+          <View style={[styles.timerCard, styles.createCard]}>
+            <Text style={styles.createTitle}>New Countdown</Text>
+            <TextInput
+              style={styles.nameInput}
+              value={newTimerName}
+              onChangeText={setNewTimerName}
+              placeholder="Name (optional)"
+              placeholderTextColor={FreeShowTheme.colors.textSecondary}
+            />
+            {renderMinutesEditor(handleCreate, 'Create')}
+          </View>
+        )}
+
+        {isLoading && timers.length === 0 ? (
+          <ActivityIndicator
+            style={styles.loader}
+            size="large"
+            color={FreeShowTheme.colors.secondary}
+          />
+        ) : timers.length === 0 ? (
+          <Text style={styles.emptyText}>No timers in FreeShow yet</Text>
+        ) : (
+          timers.map(renderTimer)
+        )}
+      </ScrollView>
+
+      <ErrorModal
+        visible={!!errorMessage}
+        title="Timers"
+        message={errorMessage || ''}
+        onClose={() => setErrorMessage(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+  },
+  content: {
+    flex: 1,
+    padding: FreeShowTheme.spacing.lg,
+  },
+  loader: {
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  emptyText: {
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: FreeShowTheme.spacing.xl,
+  },
+  timerCard: {
+    backgroundColor: FreeShowTheme.colors.primaryDarker,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    padding: FreeShowTheme.spacing.lg,
+    marginBottom: FreeShowTheme.spacing.md,
+    gap: FreeShowTheme.spacing.md,
+  },
+  timerCardRunning: {
+    borderColor: FreeShowTheme.colors.secondary,
+  },
+  createCard: {
+    borderStyle: 'dashed',
+  },
+  createTitle: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  timerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: FreeShowTheme.spacing.md,
+  },
+  timerInfo: {
+    flex: 1,
+  },
+  timerName: {
+    fontSize: FreeShowTheme.fontSize.md,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  timerStatus: {
+    fontSize: FreeShowTheme.fontSize.xs,
+    color: FreeShowTheme.colors.textSecondary,
+  },
+  timerTime: {
+    fontSize: 32,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+    color: FreeShowTheme.colors.text,
+  },
+  timerTimeOvertime: {
+    color: '#dc3545',
+  },
+  controlRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  controlButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: FreeShowTheme.spacing.md,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.primaryLighter,
+  },
+  controlButtonActive: {
+    backgroundColor: FreeShowTheme.colors.secondarySurface,
+  },
+  primaryControl: {
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  controlButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: FreeShowTheme.colors.text,
+  },
+  editor: {
+    gap: FreeShowTheme.spacing.sm,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  presetChip: {
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.xs,
+    borderRadius: FreeShowTheme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+  },
+  presetText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    color: FreeShowTheme.colors.text,
+  },
+  editorRow: {
+    flexDirection: 'row',
+    gap: FreeShowTheme.spacing.sm,
+  },
+  minutesInput: {
+    flex: 1,
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  nameInput: {
+    backgroundColor: FreeShowTheme.colors.primary,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: FreeShowTheme.colors.primaryLighter,
+    paddingHorizontal: FreeShowTheme.spacing.md,
+    paddingVertical: FreeShowTheme.spacing.sm,
+    fontSize: FreeShowTheme.fontSize.md,
+    color: FreeShowTheme.colors.text,
+  },
+  editorButton: {
+    justifyContent: 'center',
+    paddingHorizontal: FreeShowTheme.spacing.lg,
+    borderRadius: FreeShowTheme.borderRadius.md,
+    backgroundColor: FreeShowTheme.colors.secondary,
+  },
+  editorButtonText: {
+    fontSize: FreeShowTheme.fontSize.sm,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default TimersScreen;
@@ -16,11 +16,14 @@ import { Ionicons } from '@expo/vector-icons';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import { FreeShowTheme } from '../theme/FreeShowTheme';
 import ShowSwitcher from '../components/ShowSwitcher';
-import { useConnection } from '../contexts';
+import { useConnection, useFreeShowApi } from '../contexts';
 import { configService } from '../config/AppConfig';
 import { ErrorLogger } from '../services/ErrorLogger';
 import { ShowOption } from '../types';
 import ErrorModal from '../components/ErrorModal';
+import ConnectionHealthBanner from '../components/ConnectionHealthBanner';
+import OutputSafetyBanner from '../components/OutputSafetyBanner';
+import OutputSafetyControls from '../components/OutputSafetyControls';
 
 interface WebViewScreenProps {
   navigation: any;
@@ -30,7 +33,9 @@ interface WebViewScreenProps {
 const WebViewScreen: React.FC<WebViewScreenProps> = ({ navigation, route }) => {
   const { url, title, showId, initialFullscreen = false } = route.params || {};
   const { state } = useConnection();
-  const { connectionHost, currentShowPorts } = state;
+  const { connectionHost, currentShowPorts, isConnected } = state;
+  const api = useFreeShowApi();
+  const apiAvailable = isConnected && api.isAvailable();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFullScreen, setIsFullScreen] = useState(initialFullscreen);
@@ -264,6 +269,14 @@ const WebViewScreen: React.FC<WebViewScreenProps> = ({ navigation, route }) => {
     }
   };
 
+  const showSafetyError = (message: string) => {
+    setErrorModal({
+      visible: true,
+      title: 'Output Safety',
+      message,
+    });
+  };
+
   const getRotationIcon = () => {
     const isLandscape = currentOrientation === ScreenOrientation.Orientation.LANDSCAPE_LEFT || 
                         currentOrientation === ScreenOrientation.Orientation.LANDSCAPE_RIGHT;
@@ -447,6 +460,9 @@ const WebViewScreen: React.FC<WebViewScreenProps> = ({ navigation, route }) => {
         </View>
       )}
 
+      <ConnectionHealthBanner />
+      <OutputSafetyBanner onError={showSafetyError} />
+
       <View style={styles.webViewContainer}>
         {loading && (
           <View style={styles.loadingContainer}>
@@ -470,6 +486,13 @@ const WebViewScreen: React.FC<WebViewScreenProps> = ({ navigation, route }) => {
           allowsFullscreenVideo={true}
           key={url} // Force re-render when URL changes
         />
+
+        {/* Blackout / freeze, floating over the interface */}
+        {apiAvailable && (
+          <View style={styles.safetyOverlay}>
+            <OutputSafetyControls compact onError={showSafetyError} />
+          </View>
+        )}
       </View>
 
       {/* Error Modal */}
@@ -607,6 +630,13 @@ const styles = StyleSheet.create({
     flex: 1,
     position: 'relative',
   },
+
+  safetyOverlay: {
+    position: 'absolute',
+    right: FreeShowTheme.spacing.md,
+    top: '40%',
+    opacity: 0.85,
+  },
   
   webView: {
     flex: 1,
@@ -0,0 +1,134 @@
+import { ErrorLogger } from './ErrorLogger';
+import { FreeShowService } from './FreeShowService';
+import { IFreeShowService } from './interfaces/IFreeShowService';
+
+/**
+ * One FreeShow machine the app holds on to, with its own service (socket) and last known state
+ */
+export interface ConnectionSession<TSnapshot> {
+  id: string;
+  service: IFreeShowService;
+  // State saved by whoever shows this session, so it comes back as it was after switching
+  snapshot: TSnapshot | null;
+  // Linked sessions receive mirrored commands from the active one
+  linked: boolean;
+}
+
+/**
+ * Holds several FreeShow connections at once, exactly one of them is active
+ * Inactive sessions keep their socket, reconnection and heartbeat running in the background
+ */
+export class ConnectionPool<TSnapshot> {
+  private sessions: ConnectionSession<TSnapshot>[] = [];
+  private activeId: string;
+  private listeners = new Set<() => void>();
+  private counter = 0;
+  private readonly logContext = 'ConnectionPool';
+
+  constructor(
+    initialService?: IFreeShowService,
+    private readonly createService: () => IFreeShowService = () => new FreeShowService()
+  ) {
+    this.activeId = this.addSession(initialService).id;
+  }
+
+  getSessions(): ConnectionSession<TSnapshot>[] {
+    return this.sessions;
+  }
+
+  getActive(): ConnectionSession<TSnapshot> {
+    return this.sessions.find(session => session.id === this.activeId) ?? this.sessions[0];
+  }
+
+  getSession(id: string): ConnectionSession<TSnapshot> | undefined {
+    return this.sessions.find(session => session.id === id);
+  }
+
+  /**
+   * Open an empty slot for another machine, it is connected like any other through the active service
+   */
+  addSession(service: IFreeShowService = this.createService()): ConnectionSession<TSnapshot> {
+    this.counter++;
+    const session: ConnectionSession<TSnapshot> = {
+      id: `connection_${Date.now()}_${this.counter}`,
+      service,
+      snapshot: null,
+      linked: false,
+    };
+
+    // Inactive sessions are not watched by the connection context, so relay their changes
+    ['connect', 'disconnect', 'health'].forEach(event => service.on(event, this.notify));
+
+    this.sessions = [...this.sessions, session];
+    this.notify();
+    return session;
+  }
+
+  setActive(id: string): void {
+    if (id === this.activeId || !this.getSession(id)) return;
+    this.activeId = id;
+    ErrorLogger.info('Active connection switched', this.logContext, { id });
+    this.notify();
+  }
+
+  /**
+   * Disconnect and forget a session, the last one always stays
+   */
+  async removeSession(id: string): Promise<void> {
+    const session = this.getSession(id);
+    if (!session || this.sessions.length <= 1) return;
+
+    this.sessions = this.sessions.filter(candidate => candidate.id !== id);
+    if (this.activeId === id) {
+      this.activeId = this.sessions[0].id;
+    }
+
+    ['connect', 'disconnect', 'health'].forEach(event => session.service.off(event, this.notify));
+    await session.service.disconnect();
+    this.notify();
+  }
+
+  setLinked(id: string, linked: boolean): void {
+    this.sessions = this.sessions.map(session =>
+      session.id === id ? { ...session, linked } : session
+    );
+    this.notify();
+  }
+
+  saveSnapshot(id: string, snapshot: TSnapshot): void {
+    const session = this.getSession(id);
+    if (session) {
+      session.snapshot = snapshot;
+    }
+  }
+
+  /**
+   * Services that should repeat what is sent to the active one
+   * Mirroring only happens when the active session is itself part of the linked group
+   */
+  getMirrorTargets(): IFreeShowService[] {
+    const active = this.getActive();
+    if (!active.linked) return [];
+
+    return this.sessions
+      .filter(
+        session => session.linked && session.id !== active.id && session.service.isConnected()
+      )
+      .map(session => session.service);
+  }
+
+  forEachService(callback: (service: IFreeShowService) => void): void {
+    this.sessions.forEach(session => callback(session.service));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify = (): void => {
+    this.listeners.forEach(listener => listener());
+  };
+}
@@ -0,0 +1,868 @@
+// Typed client for the FreeShow WebSocket API
+
+import {
+  FreeShowAudioPlaylist,
+  FreeShowAudioState,
+  FreeShowAudioTrack,
+  FreeShowBible,
+  FreeShowOutput,
+  FreeShowOutputInfo,
+  FreeShowOutputLayer,
+  FreeShowOutputLayers,
+  FreeShowOverlay,
+  FreeShowProject,
+  FreeShowScriptureVerse,
+  FreeShowShow,
+  FreeShowSlide,
+  FreeShowStyle,
+  FreeShowTimer,
+} from '../types';
+import { ErrorLogger } from './ErrorLogger';
+import { ApiMessageCodec } from './implementations/FreeShowServiceImplementations';
+import {
+  FreeShowReplayPolicy,
+  IFreeShowApiMessage,
+  IFreeShowService,
+} from './interfaces/IFreeShowService';
+
+/**
+ * Catalog of FreeShow API actions with their payload and decoded response types.
+ * Actions with a `void` response are plain commands that FreeShow does not answer.
+ */
+export interface FreeShowApiActionMap {
+  // Slides
+  next_slide: { payload: void; response: void };
+  previous_slide: { payload: void; response: void };
+  index_select_slide: {
+    payload: { index: number; showId?: string; layoutId?: string };
+    response: void;
+  };
+
+  // Projects
+  next_project_item: { payload: void; response: void };
+  previous_project_item: { payload: void; response: void };
+  get_projects: { payload: void; response: FreeShowProject[] };
+  index_select_project_item: { payload: { id: string; index: number }; response: void };
+
+  // Shows
+  get_shows: { payload: void; response: FreeShowShow[] };
+  get_show: { payload: { id: string }; response: FreeShowShow | null };
+  name_select_show: { payload: { value: string }; response: void };
+  start_show: { payload: { id: string }; response: void };
+
+  // Scripture
+  get_scriptures: { payload: void; response: FreeShowBible[] };
+  get_scripture: { payload: { id: string; reference: string }; response: FreeShowScriptureVerse[] };
+  start_scripture: { payload: { id: string; reference: string }; response: void };
+
+  // Overlays
+  get_overlays: { payload: void; response: FreeShowOverlay[] };
+  start_overlay: { payload: { id: string }; response: void };
+  clear_overlay: { payload: { id: string }; response: void };
+
+  // Stage
+  set_stage_message: { payload: { message: string }; response: void };
+  clear_stage_message: { payload: void; response: void };
+
+  // Timers
+  get_timers: { payload: void; response: FreeShowTimer[] };
+  start_timer: { payload: { id: string }; response: void };
+  pause_timer: { payload: { id: string }; response: void };
+  reset_timer: { payload: { id: string }; response: void };
+  set_timer: { payload: { id: string; seconds: number }; response: void };
+  create_timer: { payload: { name: string; seconds: number }; response: void };
+
+  // Audio
+  get_audio: { payload: void; response: FreeShowAudioState };
+  play_audio: { payload: { path: string }; response: void };
+  pause_audio: { payload: void; response: void };
+  stop_audio: { payload: void; response: void };
+  seek_audio: { payload: { time: number }; response: void };
+  start_playlist: { payload: { id: string }; response: void };
+  change_volume: { payload: { volume: number }; response: void };
+
+  // Outputs
+  get_outputs: { payload: void; response: FreeShowOutputInfo[] };
+  get_output: { payload: void; response: FreeShowOutput | null };
+  set_output: { payload: { outputId: string; enabled: boolean }; response: void };
+  set_output_lock: { payload: { outputId: string; locked: boolean }; response: void };
+  set_output_style: { payload: { outputId: string; styleId: string | null }; response: void };
+  get_styles: { payload: void; response: FreeShowStyle[] };
+
+  // Thumbnails
+  get_thumbnail: {
+    payload: { showId: string; layoutId?: string; index: number };
+    response: string | null;
+  };
+  get_output_thumbnail: { payload: void; response: string | null };
+
+  // Clearing
+  clear_all: { payload: void; response: void };
+  clear_background: { payload: void; response: void };
+  clear_slide: { payload: void; response: void };
+  clear_overlays: { payload: void; response: void };
+  clear_audio: { payload: void; response: void };
+  clear_next_timer: { payload: void; response: void };
+  restore_output: { payload: void; response: void };
+  blackout: { payload: void; response: void };
+}
+
+export type FreeShowApiAction = keyof FreeShowApiActionMap;
+export type FreeShowApiPayload<A extends FreeShowApiAction> = FreeShowApiActionMap[A]['payload'];
+export type FreeShowApiResponse<A extends FreeShowApiAction> = FreeShowApiActionMap[A]['response'];
+
+type PayloadArgs<A extends FreeShowApiAction> =
+  FreeShowApiPayload<A> extends void ? [] : [FreeShowApiPayload<A>];
+
+// Runtime list of the catalog, typed as a record so a new action can't be left out
+const CATALOG_ACTIONS: Record<FreeShowApiAction, true> = {
+  next_slide: true,
+  previous_slide: true,
+  index_select_slide: true,
+  next_project_item: true,
+  previous_project_item: true,
+  get_projects: true,
+  index_select_project_item: true,
+  get_shows: true,
+  get_show: true,
+  name_select_show: true,
+  start_show: true,
+  get_scriptures: true,
+  get_scripture: true,
+  start_scripture: true,
+  get_overlays: true,
+  start_overlay: true,
+  clear_overlay: true,
+  set_stage_message: true,
+  clear_stage_message: true,
+  get_timers: true,
+  start_timer: true,
+  pause_timer: true,
+  reset_timer: true,
+  set_timer: true,
+  create_timer: true,
+  get_audio: true,
+  play_audio: true,
+  pause_audio: true,
+  stop_audio: true,
+  seek_audio: true,
+  start_playlist: true,
+  change_volume: true,
+  get_outputs: true,
+  get_output: true,
+  set_output: true,
+  set_output_lock: true,
+  set_output_style: true,
+  get_styles: true,
+  get_thumbnail: true,
+  get_output_thumbnail: true,
+  clear_all: true,
+  clear_background: true,
+  clear_slide: true,
+  clear_overlays: true,
+  clear_audio: true,
+  clear_next_timer: true,
+  restore_output: true,
+  blackout: true,
+};
+
+export const isCatalogAction = (action: string): action is FreeShowApiAction =>
+  Object.prototype.hasOwnProperty.call(CATALOG_ACTIONS, action);
+
+/**
+ * Error raised when a typed API call fails
+ */
+export class FreeShowApiError extends Error {
+  constructor(
+    message: string,
+    public action: string,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'FreeShowApiError';
+  }
+}
+
+/**
+ * True when a command was refused by its replay policy while the connection was being re-established
+ */
+export const isDroppedOffline = (error: unknown): boolean =>
+  error instanceof FreeShowApiError && error.details?.code === 'DROPPED_OFFLINE';
+
+// Turns FreeShow's `{ [id]: item }` maps into arrays that keep the id on each item
+const decodeKeyedMap = <T extends { id: string }>(raw: any): T[] => {
+  if (Array.isArray(raw)) {
+    return raw.filter(item => item && typeof item === 'object') as T[];
+  }
+  if (!raw || typeof raw !== 'object') {
+    return [];
+  }
+  return Object.entries(raw)
+    .filter(([, item]) => item && typeof item === 'object')
+    .map(([id, item]) => ({ ...(item as object), id: (item as any).id ?? id }) as T);
+};
+
+export const decodeShows = (raw: any): FreeShowShow[] =>
+  decodeKeyedMap<FreeShowShow>(raw).map(show => ({ ...show, name: show.name || show.id }));
+
+// A single show keeps its slides keyed by slide ID
+export const decodeShow = (raw: any): FreeShowShow | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+  return {
+    ...raw,
+    name: raw.name || raw.id,
+    slides: decodeKeyedMap<FreeShowSlide>(raw.slides),
+  };
+};
+
+export const decodeOutputs = (raw: any): FreeShowOutputInfo[] =>
+  decodeKeyedMap<any>(raw).map(output => ({
+    id: output.id,
+    name: output.name || output.id,
+    enabled: output.enabled !== false,
+    locked: !!(output.locked ?? output.lock),
+    isStage: !!(output.isStage ?? output.stageOutput),
+    isMain: !!(output.isMain ?? output.main),
+    styleId: output.styleId ?? output.style ?? undefined,
+  }));
+
+export const decodeBibles = (raw: any): FreeShowBible[] =>
+  decodeKeyedMap<FreeShowBible>(raw).map(bible => ({ id: bible.id, name: bible.name || bible.id }));
+
+// Verses come either as a list of { number, text } or keyed by verse number
+export const decodeScriptureVerses = (raw: any): FreeShowScriptureVerse[] => {
+  const verses = raw?.verses ?? raw;
+  if (!verses || typeof verses !== 'object') {
+    return [];
+  }
+  const entries: [string, any][] = Array.isArray(verses)
+    ? verses.map((verse, index) => [String(verse?.number ?? index + 1), verse])
+    : Object.entries(verses);
+
+  return entries
+    .map(([key, verse]) => ({
+      number: parseInt(String(verse?.number ?? key), 10),
+      text: typeof verse === 'string' ? verse : String(verse?.text ?? ''),
+    }))
+    .filter(verse => !isNaN(verse.number))
+    .sort((a, b) => a.number - b.number);
+};
+
+// Timer definitions and their running state may arrive merged or as { timers, active }
+export const decodeTimers = (raw: any): FreeShowTimer[] => {
+  const definitions = raw?.timers ?? raw;
+  const active: any[] = Array.isArray(raw?.active) ? raw.active : [];
+
+  return decodeKeyedMap<any>(definitions).map(timer => {
+    const state = active.find(entry => entry?.id === timer.id) ?? timer;
+    const remaining = state.remaining ?? state.currentTime ?? timer.remaining;
+    return {
+      id: timer.id,
+      name: timer.name || timer.id,
+      type: timer.type === 'clock' || timer.type === 'event' ? timer.type : 'counter',
+      remaining: typeof remaining === 'number' ? remaining : null,
+      isRunning: !!(state.running ?? state.isRunning ?? active.includes(state)),
+      isPaused: !!(state.paused ?? state.isPaused),
+    };
+  });
+};
+
+// FreeShow pushes its running timers as active_timers, a timer missing from it has stopped
+export const applyActiveTimers = (timers: FreeShowTimer[], raw: any): FreeShowTimer[] => {
+  const active: any[] = Array.isArray(raw) ? raw : Array.isArray(raw?.active) ? raw.active : [];
+  return timers.map(timer => {
+    const state = active.find(entry => entry?.id === timer.id);
+    if (!state) {
+      return { ...timer, isRunning: false, isPaused: false };
+    }
+    const remaining = state.remaining ?? state.currentTime;
+    return {
+      ...timer,
+      remaining: typeof remaining === 'number' ? remaining : timer.remaining,
+      isRunning: !state.paused,
+      isPaused: !!state.paused,
+    };
+  });
+};
+
+const basename = (path: string): string => path.split(/[\\/]/).pop() || path;
+
+export const decodeAudioState = (raw: any): FreeShowAudioState => {
+  const rawTracks = raw?.tracks ?? raw?.audio;
+  const trackList = Array.isArray(rawTracks)
+    ? rawTracks.map(track => (typeof track === 'string' ? { path: track } : track))
+    : rawTracks;
+  const tracks = decodeKeyedMap<any>(trackList).map(
+    (track): FreeShowAudioTrack => ({
+      id: track.path ?? track.id,
+      name: track.name || basename(track.path ?? track.id),
+    })
+  );
+  const playlists = decodeKeyedMap<any>(raw?.playlists).map(
+    (playlist): FreeShowAudioPlaylist => ({
+      id: playlist.id,
+      name: playlist.name || playlist.id,
+      tracks: Array.isArray(playlist.songs ?? playlist.tracks)
+        ? (playlist.songs ?? playlist.tracks)
+        : [],
+    })
+  );
+
+  // FreeShow keys the currently playing audio by its path
+  const [playingId, playingState] = Object.entries(raw?.playing ?? {})[0] ?? [];
+  const playing =
+    playingId && playingState && typeof playingState === 'object'
+      ? {
+          id: playingId,
+          name: (playingState as any).name || basename(playingId),
+          isPaused: !!(playingState as any).paused,
+          position: Number((playingState as any).currentTime ?? (playingState as any).position) || 0,
+          duration: Number((playingState as any).duration) || 0,
+        }
+      : null;
+
+  const volume = Number(raw?.volume);
+  return {
+    tracks,
+    playlists,
+    playing,
+    // FreeShow stores volume as 0-1
+    volume: isNaN(volume) ? 100 : Math.round(volume <= 1 ? volume * 100 : volume),
+  };
+};
+
+export const decodeOverlays = (raw: any): FreeShowOverlay[] =>
+  decodeKeyedMap<FreeShowOverlay>(raw).map(overlay => ({
+    id: overlay.id,
+    name: overlay.name || overlay.id,
+    category: overlay.category || undefined,
+  }));
+
+// The output keeps active overlays as a list of overlay IDs
+const decodeActiveOverlays = (raw: any): string[] | undefined => {
+  const overlays = raw.out?.overlays ?? raw.overlays;
+  if (!Array.isArray(overlays)) {
+    return undefined;
+  }
+  return overlays.filter((id): id is string => typeof id === 'string');
+};
+
+export const decodeStyles = (raw: any): FreeShowStyle[] =>
+  decodeKeyedMap<FreeShowStyle>(raw).map(style => ({ id: style.id, name: style.name || style.id }));
+
+const hasContent = (value: any): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return !!value;
+};
+
+// Layer state is only known when FreeShow sends the full `out` object
+const decodeOutputLayers = (raw: any): FreeShowOutputLayers | undefined => {
+  const out = raw.out;
+  if (!out || typeof out !== 'object') {
+    return undefined;
+  }
+  return {
+    background: hasContent(out.background),
+    slide: hasContent(out.slide),
+    overlays: hasContent(out.overlays),
+    audio: hasContent(raw.audio ?? out.audio),
+    nextTimer: hasContent(raw.nextTimer ?? out.transition),
+  };
+};
+
+// FreeShow reports the live slide as { id: showId, layout, index } on the output
+export const decodeOutput = (raw: any): FreeShowOutput | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const outSlide = raw.out?.slide ?? raw.slide;
+  const isSlideRef = outSlide && typeof outSlide === 'object' && !('items' in outSlide);
+  const blackout = raw.blackout ?? raw.out?.blackout;
+  const itemIndex = raw.projectItemIndex ?? raw.activeShow?.index;
+
+  return {
+    showId: raw.showId ?? (isSlideRef ? outSlide.id : undefined),
+    layoutId: raw.layoutId ?? (isSlideRef ? outSlide.layout : undefined),
+    slideIndex: raw.slideIndex ?? (isSlideRef ? outSlide.index : undefined),
+    slide: isSlideRef ? undefined : outSlide,
+    layers: decodeOutputLayers(raw),
+    activeOverlays: decodeActiveOverlays(raw),
+    blackout: typeof blackout === 'boolean' ? blackout : undefined,
+    projectId: raw.projectId ?? raw.activeProject ?? undefined,
+    projectItemIndex: typeof itemIndex === 'number' ? itemIndex : undefined,
+  };
+};
+
+// Thumbnails come back as a data URI, bare base64 or wrapped in an object
+export const decodeThumbnail = (raw: any): string | null => {
+  const image = typeof raw === 'string' ? raw : (raw?.thumbnail ?? raw?.image ?? raw?.data);
+  if (typeof image !== 'string' || image.length === 0) {
+    return null;
+  }
+  return image.startsWith('data:') ? image : `data:image/jpeg;base64,${image}`;
+};
+
+export const decodeProjects = (raw: any): FreeShowProject[] =>
+  decodeKeyedMap<FreeShowProject>(raw).map(project => ({
+    ...project,
+    name: project.name || project.id,
+    shows: Array.isArray(project.shows) ? project.shows : [],
+  }));
+
+/**
+ * Response decoders for every action that FreeShow answers.
+ * Actions missing from this table are sent as fire-and-forget commands.
+ */
+const RESPONSE_DECODERS: { [A in FreeShowApiAction]?: (raw: any) => FreeShowApiResponse<A> } = {
+  get_shows: decodeShows,
+  get_show: decodeShow,
+  get_outputs: decodeOutputs,
+  get_output: decodeOutput,
+  get_projects: decodeProjects,
+  get_styles: decodeStyles,
+  get_overlays: decodeOverlays,
+  get_audio: decodeAudioState,
+  get_timers: decodeTimers,
+  get_scriptures: decodeBibles,
+  get_scripture: decodeScriptureVerses,
+  get_thumbnail: decodeThumbnail,
+  get_output_thumbnail: decodeThumbnail,
+};
+
+// Replies that name what they answer are checked against the request before they are decoded,
+// so a stray reply is never cached under the wrong key
+const REPLY_MATCHERS: {
+  [A in FreeShowApiAction]?: (raw: any, payload: FreeShowApiPayload<A>) => boolean;
+} = {
+  get_thumbnail: (raw, payload) =>
+    !raw ||
+    typeof raw !== 'object' ||
+    ((raw.showId === undefined || raw.showId === payload.showId) &&
+      (raw.index === undefined || raw.index === payload.index)),
+};
+
+// Absolute commands are replayed after a reconnect, relative or toggling ones are refused,
+// anything missing here fails straight away while offline
+const REPLAY_POLICIES: { [A in FreeShowApiAction]?: FreeShowReplayPolicy } = {
+  next_slide: 'drop',
+  previous_slide: 'drop',
+  index_select_slide: 'replay',
+  next_project_item: 'drop',
+  previous_project_item: 'drop',
+  index_select_project_item: 'replay',
+  name_select_show: 'replay',
+  start_show: 'replay',
+  start_scripture: 'replay',
+  start_overlay: 'replay',
+  clear_overlay: 'replay',
+  set_stage_message: 'replay',
+  clear_stage_message: 'replay',
+  start_timer: 'replay',
+  pause_timer: 'replay',
+  reset_timer: 'replay',
+  set_timer: 'replay',
+  create_timer: 'drop',
+  play_audio: 'replay',
+  pause_audio: 'drop',
+  stop_audio: 'replay',
+  seek_audio: 'replay',
+  start_playlist: 'replay',
+  change_volume: 'replay',
+  set_output: 'replay',
+  set_output_lock: 'replay',
+  set_output_style: 'replay',
+  clear_all: 'replay',
+  clear_background: 'replay',
+  clear_slide: 'replay',
+  clear_overlays: 'replay',
+  clear_audio: 'replay',
+  clear_next_timer: 'replay',
+  restore_output: 'replay',
+  blackout: 'drop',
+};
+
+// Buffered commands aimed at the same output, timer or overlay collapse to the latest one
+const replayKeyFor = (action: string, payload: any): string => {
+  const target = payload?.outputId ?? payload?.id;
+  return target ? `${action}:${target}` : action;
+};
+
+// Commands that make sense on every machine of a linked group, whatever show each one is on
+const MIRRORED_ACTIONS = new Set<FreeShowApiAction>([
+  'next_slide',
+  'previous_slide',
+  'next_project_item',
+  'previous_project_item',
+  'clear_all',
+  'clear_background',
+  'clear_slide',
+  'clear_overlays',
+  'clear_audio',
+  'clear_next_timer',
+  'restore_output',
+]);
+
+const CLEAR_LAYER_ACTIONS: Record<
+  FreeShowOutputLayer,
+  'clear_background' | 'clear_slide' | 'clear_overlays' | 'clear_audio' | 'clear_next_timer'
+> = {
+  background: 'clear_background',
+  slide: 'clear_slide',
+  overlays: 'clear_overlays',
+  audio: 'clear_audio',
+  nextTimer: 'clear_next_timer',
+};
+
+/**
+ * FreeShow API client
+ * Wraps the shared FreeShow service socket with a typed action catalog
+ */
+export class FreeShowApiClient {
+  private readonly logContext = 'FreeShowApiClient';
+  private readonly codec = new ApiMessageCodec();
+
+  constructor(
+    private readonly service: IFreeShowService,
+    private readonly getMirrorTargets: () => IFreeShowService[] = () => []
+  ) {}
+
+  isAvailable(): boolean {
+    return this.service.isConnected() && this.service.isApiAvailable();
+  }
+
+  /**
+   * Commands sent now are buffered for replay or dropped, see REPLAY_POLICIES
+   */
+  isReconnecting(): boolean {
+    return this.service.isReconnecting();
+  }
+
+  expectsResponse(action: FreeShowApiAction): boolean {
+    return action in RESPONSE_DECODERS;
+  }
+
+  async send<A extends FreeShowApiAction>(
+    action: A,
+    ...args: PayloadArgs<A>
+  ): Promise<FreeShowApiResponse<A>> {
+    return this.request(action, args[0] as FreeShowApiPayload<A>);
+  }
+
+  private async request<A extends FreeShowApiAction>(
+    action: A,
+    payload: FreeShowApiPayload<A>,
+    sequence?: string
+  ): Promise<FreeShowApiResponse<A>> {
+    const decoder = RESPONSE_DECODERS[action] as ((raw: any) => FreeShowApiResponse<A>) | undefined;
+
+    try {
+      const raw = await this.service.sendRequest(action, payload, {
+        expectResponse: !!decoder,
+        offlinePolicy: REPLAY_POLICIES[action],
+        replayKey: replayKeyFor(action, payload),
+        sequence,
+        // Linked machines follow once this one really got the command, for a buffered
+        // command that is when it is replayed, and never if it expires
+        onSent: MIRRORED_ACTIONS.has(action) ? () => this.mirror(action, payload) : undefined,
+      });
+      const matchesRequest = REPLY_MATCHERS[action] as
+        | ((raw: any, payload: FreeShowApiPayload<A>) => boolean)
+        | undefined;
+      if (matchesRequest && !matchesRequest(raw, payload)) {
+        throw new Error(`Reply to ${action} belongs to another request`);
+      }
+      return decoder ? decoder(raw) : (undefined as FreeShowApiResponse<A>);
+    } catch (error) {
+      ErrorLogger.error(
+        `API action failed: ${action}`,
+        this.logContext,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw new FreeShowApiError(
+        error instanceof Error ? error.message : `Failed to execute "${action}"`,
+        action,
+        error
+      );
+    }
+  }
+
+  /**
+   * Repeat a command on the linked machines, a machine that misses it must not fail the original
+   */
+  private mirror(action: FreeShowApiAction, data: any): void {
+    this.getMirrorTargets().forEach(target => {
+      target.sendRequest(action, data, { expectResponse: false }).catch(error => {
+        ErrorLogger.warn(
+          `Mirrored action failed: ${action}`,
+          this.logContext,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+    });
+  }
+
+  /**
+   * Send an action chosen at runtime, e.g. from a deck button or macro step
+   * Catalog actions keep their decoder, replay policy and mirroring, anything else goes out raw
+   */
+  async sendAction(
+    action: string,
+    data?: Record<string, any>,
+    sequence?: string
+  ): Promise<unknown> {
+    if (!isCatalogAction(action)) {
+      return this.sendRaw(action, data, sequence);
+    }
+    return this.request(action, data as any, sequence);
+  }
+
+  /**
+   * Send an action that is not in the catalog, e.g. from the custom command field
+   * Pass a sequence key to keep several commands strictly in order
+   */
+  async sendRaw(action: string, data?: Record<string, any>, sequence?: string): Promise<void> {
+    try {
+      await this.service.sendRequest(action, data, { expectResponse: false, sequence });
+    } catch (error) {
+      throw new FreeShowApiError(
+        error instanceof Error ? error.message : `Failed to execute "${action}"`,
+        action,
+        error
+      );
+    }
+  }
+
+  /**
+   * Drop the commands of a sequence that are still waiting to be sent
+   */
+  cancelSequence(sequence: string): void {
+    this.service.cancelRequestSequence(sequence);
+  }
+
+  /**
+   * Subscribe to every message FreeShow sends on the `data` channel
+   */
+  onMessage(listener: (message: IFreeShowApiMessage) => void): () => void {
+    const handler = (raw: any) => listener(this.codec.decode(raw));
+    this.service.on('data', handler);
+    return () => this.service.off('data', handler);
+  }
+
+  /**
+   * Subscribe to replies that no pending request claimed, e.g. state FreeShow pushes on its own
+   */
+  onUnsolicited(listener: (message: IFreeShowApiMessage) => void): () => void {
+    this.service.on('unsolicited', listener);
+    return () => this.service.off('unsolicited', listener);
+  }
+
+  // Convenience wrappers for the most common actions
+  nextSlide(): Promise<void> {
+    return this.send('next_slide');
+  }
+
+  previousSlide(): Promise<void> {
+    return this.send('previous_slide');
+  }
+
+  /**
+   * Go to a slide by its zero-based position in the layout
+   */
+  selectSlide(index: number, showId?: string, layoutId?: string): Promise<void> {
+    return this.send('index_select_slide', { index, showId, layoutId });
+  }
+
+  nextProjectItem(): Promise<void> {
+    return this.send('next_project_item');
+  }
+
+  previousProjectItem(): Promise<void> {
+    return this.send('previous_project_item');
+  }
+
+  clearAll(): Promise<void> {
+    return this.send('clear_all');
+  }
+
+  clearLayer(layer: FreeShowOutputLayer): Promise<void> {
+    return this.send(CLEAR_LAYER_ACTIONS[layer]);
+  }
+
+  /**
+   * Toggle FreeShow's blackout of all outputs
+   */
+  toggleBlackout(): Promise<void> {
+    return this.send('blackout');
+  }
+
+  /**
+   * Bring back whatever the last clear removed from the output
+   */
+  restoreOutput(): Promise<void> {
+    return this.send('restore_output');
+  }
+
+  getShows(): Promise<FreeShowShow[]> {
+    return this.send('get_shows');
+  }
+
+  getShow(id: string): Promise<FreeShowShow | null> {
+    return this.send('get_show', { id });
+  }
+
+  getOutput(): Promise<FreeShowOutput | null> {
+    return this.send('get_output');
+  }
+
+  getOutputs(): Promise<FreeShowOutputInfo[]> {
+    return this.send('get_outputs');
+  }
+
+  /**
+   * Capture of the main output as an image URI, or null when FreeShow has nothing to capture
+   */
+  getOutputThumbnail(): Promise<string | null> {
+    return this.send('get_output_thumbnail');
+  }
+
+  /**
+   * Rendered preview of one slide of a show layout as an image URI
+   */
+  getSlideThumbnail(showId: string, index: number, layoutId?: string): Promise<string | null> {
+    return this.send('get_thumbnail', { showId, layoutId, index });
+  }
+
+  setOutputEnabled(outputId: string, enabled: boolean): Promise<void> {
+    return this.send('set_output', { outputId, enabled });
+  }
+
+  setOutputLocked(outputId: string, locked: boolean): Promise<void> {
+    return this.send('set_output_lock', { outputId, locked });
+  }
+
+  /**
+   * Apply a style to an output, or pass null to fall back to FreeShow's default style
+   */
+  setOutputStyle(outputId: string, styleId: string | null): Promise<void> {
+    return this.send('set_output_style', { outputId, styleId });
+  }
+
+  getStyles(): Promise<FreeShowStyle[]> {
+    return this.send('get_styles');
+  }
+
+  getBibles(): Promise<FreeShowBible[]> {
+    return this.send('get_scriptures');
+  }
+
+  /**
+   * Fetch the verses of a reference like "John 3" or "John 3:16-18" from a bible
+   */
+  getScripture(bibleId: string, reference: string): Promise<FreeShowScriptureVerse[]> {
+    return this.send('get_scripture', { id: bibleId, reference });
+  }
+
+  showScripture(bibleId: string, reference: string): Promise<void> {
+    return this.send('start_scripture', { id: bibleId, reference });
+  }
+
+  getOverlays(): Promise<FreeShowOverlay[]> {
+    return this.send('get_overlays');
+  }
+
+  /**
+   * Show or hide a single overlay without touching the others on the output
+   */
+  setOverlayActive(id: string, active: boolean): Promise<void> {
+    return this.send(active ? 'start_overlay' : 'clear_overlay', { id });
+  }
+
+  sendStageMessage(message: string): Promise<void> {
+    return this.send('set_stage_message', { message });
+  }
+
+  clearStageMessage(): Promise<void> {
+    return this.send('clear_stage_message');
+  }
+
+  getTimers(): Promise<FreeShowTimer[]> {
+    return this.send('get_timers');
+  }
+
+  startTimer(id: string): Promise<void> {
+    return this.send('start_timer', { id });
+  }
+
+  pauseTimer(id: string): Promise<void> {
+    return this.send('pause_timer', { id });
+  }
+
+  resetTimer(id: string): Promise<void> {
+    return this.send('reset_timer', { id });
+  }
+
+  setTimer(id: string, seconds: number): Promise<void> {
+    return this.send('set_timer', { id, seconds });
+  }
+
+  createTimer(name: string, seconds: number): Promise<void> {
+    return this.send('create_timer', { name, seconds });
+  }
+
+  getAudio(): Promise<FreeShowAudioState> {
+    return this.send('get_audio');
+  }
+
+  playAudio(path: string): Promise<void> {
+    return this.send('play_audio', { path });
+  }
+
+  // FreeShow toggles pause on the current track, so this also resumes it where it stopped
+  pauseAudio(): Promise<void> {
+    return this.send('pause_audio');
+  }
+
+  stopAudio(): Promise<void> {
+    return this.send('stop_audio');
+  }
+
+  seekAudio(seconds: number): Promise<void> {
+    return this.send('seek_audio', { time: seconds });
+  }
+
+  startPlaylist(id: string): Promise<void> {
+    return this.send('start_playlist', { id });
+  }
+
+  /**
+   * Set the master volume, from 0 to 100
+   */
+  setVolume(volume: number): Promise<void> {
+    return this.send('change_volume', { volume: Math.max(0, Math.min(100, volume)) / 100 });
+  }
+
+  getProjects(): Promise<FreeShowProject[]> {
+    return this.send('get_projects');
+  }
+
+  /**
+   * Select an item of a project by its zero-based position
+   */
+  selectProjectItem(projectId: string, index: number): Promise<void> {
+    return this.send('index_select_project_item', { id: projectId, index });
+  }
+
+  selectShowByName(name: string): Promise<void> {
+    return this.send('name_select_show', { value: name });
+  }
+
+  /**
+   * Select a show by ID, which unlike the name select is unambiguous for duplicate titles
+   */
+  selectShow(id: string): Promise<void> {
+    return this.send('start_show', { id });
+  }
+}
@@ -3,19 +3,29 @@
 import { Socket } from 'socket.io-client';
 import { 
   IFreeShowService, 
-  IFreeShowServiceConfig 
+  IFreeShowServiceConfig,
+  IFreeShowRequestOptions,
+  IFreeShowHealthEvent,
+  IFreeShowBufferedRequest,
+  IFreeShowLinkStats,
+  FreeShowConnectionHealth
 } from './interfaces/IFreeShowService';
 import { 
+  ApiMessageCodec,
+  PendingRequestRegistry,
   RequestQueueManager,
   defaultFreeShowServiceConfig,
   ConnectionStateManager,
   EventManager,
+  LinkQualityMonitor,
+  ReconnectionSupervisor,
   SocketFactory
 } from './implementations/FreeShowServiceImplementations';
 import { configService } from '../config/AppConfig';
 import { InputValidationService } from './InputValidationService';
 import { ErrorLogger } from './ErrorLogger';
 import { settingsRepository, connectionRepository } from '../repositories';
+import { decodeOutputs, decodeShow, decodeShows } from './FreeShowApiClient';
 
 // Error types
 export class FreeShowConnectionError extends Error {
@@ -46,8 +56,15 @@ export class FreeShowService implements IFreeShowService {
   private socket: Socket | null = null;
   private currentHost: string | null = null;
   private currentPort: number | null = null;
-  private currentReconnectionAttempt: number = 0;
+  private health: FreeShowConnectionHealth = 'offline';
+  // Set from the connection profile, null falls back to the network config
+  private connectionTimeoutOverride: number | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private lastPingAt = 0;
+  private lastProbeAt = 0;
+  private probeInFlight = false;
+  // Commands FreeShow has answered on this connection, only their timeouts say the link is slow
+  private answeredActions = new Set<string>();
   private requestQueue: RequestQueueManager;
   private readonly logContext = 'FreeShowService';
 
@@ -58,6 +75,10 @@ export class FreeShowService implements IFreeShowService {
   private readonly socketFactory = new SocketFactory();
   private readonly connectionStateManager = new ConnectionStateManager();
   private readonly eventManager = new EventManager();
+  private readonly messageCodec = new ApiMessageCodec();
+  private readonly pendingRequests = new PendingRequestRegistry();
+  private readonly linkQuality = new LinkQualityMonitor();
+  private readonly reconnectionSupervisor: ReconnectionSupervisor;
   private readonly settingsRepository = settingsRepository;
   private readonly connectionRepository = connectionRepository;
 
@@ -71,6 +92,14 @@ export class FreeShowService implements IFreeShowService {
       config.maxConcurrentRequests,
       config.requestQueueSize
     );
+    this.reconnectionSupervisor = new ReconnectionSupervisor(
+      () => this.reconnectToCurrentHost(),
+      (_attempt, delay) => this.setHealth('reconnecting', delay),
+      attempts => this.errorLogger.info(
+        `Reconnected to FreeShow after ${attempts} attempt(s)`,
+        this.logContext
+      )
+    );
 
     // Initialize configuration
     this.initializeConfiguration();
@@ -114,8 +143,8 @@ export class FreeShowService implements IFreeShowService {
         );
       }
 
-      // Disconnect if already connected
-      if (this.socket) {
+      // Disconnect if already connected, or still retrying a dropped connection
+      if (this.socket || this.reconnectionSupervisor.isActive()) {
         await this.disconnect();
       }
 
@@ -190,10 +219,9 @@ export class FreeShowService implements IFreeShowService {
 
   private async connectWithWebSocket(): Promise<void> {
     const url = `ws://${this.currentHost}:${this.currentPort}`;
-    const networkConfig = this.configService.getNetworkConfig();
     
     this.socket = this.socketFactory.createSocket(url, {
-      timeout: networkConfig.connectionTimeout,
+      timeout: this.getConnectionTimeout(),
     });
 
     await this.setupSocketEventHandlers();
@@ -208,6 +236,8 @@ export class FreeShowService implements IFreeShowService {
       this.currentPort!
     );
     
+    this.setHealth('connected');
+
     this.errorLogger.info(
       'Successfully connected to FreeShow (interface-only mode)',
       this.logContext,
@@ -227,24 +257,21 @@ export class FreeShowService implements IFreeShowService {
     try {
       this.errorLogger.info('Disconnecting from FreeShow', this.logContext);
 
-      // Stop heartbeat
-      this.stopHeartbeat();
+      // A manual disconnect ends any reconnection in progress
+      this.reconnectionSupervisor.stop();
 
-      // Clear request queue
+      // Clear request queue and fail anything still waiting for a reply
       this.requestQueue.clearQueue();
-
-      // Disconnect socket if it exists
-      if (this.socket) {
-        this.socket.removeAllListeners();
-        this.socket.disconnect();
-        this.socket = null;
-      }
+      this.clearBufferedRequests();
+      this.teardownSocket(
+        new FreeShowConnectionError('Disconnected before FreeShow replied', 'DISCONNECTED')
+      );
 
       // Update state
       this.connectionStateManager.setConnected(false);
       this.currentHost = null;
       this.currentPort = null;
-      this.currentReconnectionAttempt = 0;
+      this.setHealth('offline');
 
       // Emit disconnect event
       this.eventManager.emit('disconnect', {
@@ -261,6 +288,25 @@ export class FreeShowService implements IFreeShowService {
   }
 
   async reconnect(): Promise<void> {
+    // An explicit reconnect skips whatever backoff delay is left
+    this.reconnectionSupervisor.stop();
+
+    try {
+      await this.reconnectToCurrentHost();
+    } catch (error) {
+      if (this.config.enableAutoReconnect && this.currentHost) {
+        this.reconnectionSupervisor.start();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a fresh socket to the host we were last connected to
+   * Unlike connect(), it keeps the target and never falls back to interface-only mode,
+   * so an attempt only succeeds once the FreeShow API answers again
+   */
+  private async reconnectToCurrentHost(): Promise<void> {
     if (!this.currentHost || !this.currentPort) {
       throw new FreeShowConnectionError(
         'Cannot reconnect: no previous connection information',
@@ -268,26 +314,77 @@ export class FreeShowService implements IFreeShowService {
       );
     }
 
-    const networkConfig = this.configService.getNetworkConfig();
-    
-    if (this.currentReconnectionAttempt >= networkConfig.maxRetries) {
-      throw new FreeShowConnectionError(
-        'Maximum reconnection attempts reached',
-        'MAX_RECONNECTION_ATTEMPTS'
+    this.teardownSocket(
+      new FreeShowConnectionError('Connection replaced before FreeShow replied', 'DISCONNECTED')
+    );
+
+    try {
+      await this.connectWithWebSocket();
+    } catch (error) {
+      this.teardownSocket(
+        new FreeShowConnectionError('Reconnection failed', 'DISCONNECTED')
       );
+      throw error;
+    }
+
+    if (this.config.enableHeartbeat) {
+      this.startHeartbeat();
     }
 
-    this.currentReconnectionAttempt++;
+    this.replayBufferedRequests();
+  }
+
+  private replayBufferedRequests(): void {
+    const buffered = this.requestQueue.getBufferedRequests().length;
+    if (buffered === 0) return;
+
+    const replayed = this.requestQueue.replayBuffer(
+      this.configService.getNetworkConfig().offlineCommandMaxAge
+    );
     this.errorLogger.info(
-      `Reconnection attempt ${this.currentReconnectionAttempt}/${networkConfig.maxRetries}`,
+      `Replayed ${replayed} of ${buffered} offline command(s)`,
       this.logContext
     );
+    this.emitBufferChange();
+  }
+
+  /**
+   * Drops the socket without touching the connection target
+   */
+  private teardownSocket(reason: Error): void {
+    this.stopHeartbeat();
+    this.pendingRequests.rejectAll(reason);
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
 
-    // Wait before reconnecting
-    await new Promise(resolve => setTimeout(resolve, networkConfig.reconnectDelay));
+  pauseReconnection(): void {
+    this.reconnectionSupervisor.pause();
+    if (this.reconnectionSupervisor.isActive()) {
+      this.setHealth('offline');
+    }
+  }
 
-    // Don't pass nickname during reconnect to preserve existing nickname
-    await this.connect(this.currentHost, this.currentPort);
+  resumeReconnection(): void {
+    this.reconnectionSupervisor.resume();
+  }
+
+  private setHealth(health: FreeShowConnectionHealth, retryIn?: number): void {
+    // Every new reconnection attempt is reported, other states only when they change
+    if (health === this.health && health !== 'reconnecting') return;
+    this.health = health;
+
+    const event: IFreeShowHealthEvent = {
+      health,
+      attempt: health === 'reconnecting' ? this.reconnectionSupervisor.getAttempt() : 0,
+      retryIn,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventManager.emit('health', event);
   }
 
   private async performConnection(): Promise<void> {
@@ -297,13 +394,13 @@ export class FreeShowService implements IFreeShowService {
         return;
       }
 
-      const networkConfig = this.configService.getNetworkConfig();
+      const connectionTimeout = this.getConnectionTimeout();
       const timeout = setTimeout(() => {
         reject(new FreeShowTimeoutError(
           'Connection timeout',
-          networkConfig.connectionTimeout
+          connectionTimeout
         ));
-      }, networkConfig.connectionTimeout);
+      }, connectionTimeout);
 
       this.socket.once('connect', () => {
         clearTimeout(timeout);
@@ -312,8 +409,10 @@ export class FreeShowService implements IFreeShowService {
           this.currentHost!,
           this.currentPort!
         );
-        this.currentReconnectionAttempt = 0;
-        
+        this.linkQuality.reset();
+        this.answeredActions.clear();
+        this.setHealth('connected');
+
         this.errorLogger.info(
           'Successfully connected to FreeShow',
           this.logContext,
@@ -347,26 +446,7 @@ export class FreeShowService implements IFreeShowService {
 
     // Connection events
     this.socket.on('disconnect', (reason: string) => {
-      this.errorLogger.warn(
-        `Disconnected from FreeShow: ${reason}`,
-        this.logContext
-      );
-
-      this.connectionStateManager.setConnected(false);
-      this.eventManager.emit('disconnect', { reason, timestamp: new Date().toISOString() });
-
-      // Auto-reconnect if enabled and not manually disconnected
-      if (this.config.enableAutoReconnect && reason !== 'io client disconnect') {
-        setTimeout(() => {
-          this.reconnect().catch(error => {
-            this.errorLogger.error(
-              'Auto-reconnection failed',
-              this.logContext,
-              error instanceof Error ? error : new Error(String(error))
-            );
-          });
-        }, 1000);
-      }
+      this.handleConnectionLost(reason);
     });
 
     this.socket.on('error', (error: any) => {
@@ -378,6 +458,16 @@ export class FreeShowService implements IFreeShowService {
       this.eventManager.emit('error', { error, timestamp: new Date().toISOString() });
     });
 
+    // API replies: settle the request they belong to, surface the rest as unsolicited events
+    this.socket.on('data', (raw: any) => {
+      // Pushed state counts as a live link too, not just replies to our own requests
+      this.connectionStateManager.updateActivity();
+      const message = this.messageCodec.decode(raw);
+      if (!this.pendingRequests.route(message)) {
+        this.eventManager.emit('unsolicited', message);
+      }
+    });
+
     // FreeShow-specific events
     this.socket.on('shows', (data: any) => {
       this.connectionStateManager.updateActivity();
@@ -413,6 +503,35 @@ export class FreeShowService implements IFreeShowService {
     });
   }
 
+  private handleConnectionLost(reason: string): void {
+    this.errorLogger.warn(
+      `Disconnected from FreeShow: ${reason}`,
+      this.logContext
+    );
+
+    this.connectionStateManager.setConnected(false);
+    this.teardownSocket(
+      new FreeShowConnectionError('Connection lost before FreeShow replied', 'DISCONNECTED')
+    );
+
+    // Keep retrying unless the disconnect was asked for
+    const willReconnect = this.config.enableAutoReconnect && reason !== 'io client disconnect';
+    this.eventManager.emit('disconnect', {
+      reason,
+      willReconnect,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (willReconnect) {
+      this.reconnectionSupervisor.start();
+      if (this.reconnectionSupervisor.isPaused()) {
+        this.setHealth('offline');
+      }
+    } else {
+      this.setHealth('offline');
+    }
+  }
+
   private startHeartbeat(): void {
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
@@ -424,11 +543,62 @@ export class FreeShowService implements IFreeShowService {
     }
 
     const networkConfig = this.configService.getNetworkConfig();
+    this.lastPingAt = 0;
+    this.lastProbeAt = 0;
     this.heartbeatInterval = setInterval(() => {
       if (this.socket && this.connectionStateManager.isConnected()) {
-        this.socket.emit('ping', { timestamp: Date.now() });
+        this.checkLinkHealth();
       }
-    }, networkConfig.keepAliveInterval);
+    }, networkConfig.linkCheckInterval);
+  }
+
+  /**
+   * One heartbeat tick: look for a silent link, then ping and probe FreeShow when they are due
+   * A socket can stay open while the Wi-Fi drops every packet, so silence is what gives it away
+   */
+  private checkLinkHealth(): void {
+    const { keepAliveInterval, latencyProbeInterval, staleLinkThreshold } =
+      this.configService.getNetworkConfig();
+    // Silence only counts once FreeShow has answered a probe, older versions may never reply
+    const silentFor = this.linkQuality.hasSamples() ? this.getSilentDuration() : 0;
+
+    // Twice the threshold without a word means the socket is half-open, start over
+    if (silentFor > staleLinkThreshold * 2) {
+      this.handleConnectionLost('heartbeat timeout');
+      return;
+    }
+
+    const stale = silentFor > staleLinkThreshold;
+    if (stale && this.health === 'connected') {
+      this.setHealth('degraded');
+    }
+
+    const now = Date.now();
+    if (this.socket && now - this.lastPingAt >= keepAliveInterval) {
+      this.lastPingAt = now;
+      this.socket.emit('ping', { timestamp: now });
+    }
+
+    // A full output fetch, so it runs less often than the check and never overlaps itself
+    if (!this.probeInFlight && now - this.lastProbeAt >= latencyProbeInterval) {
+      this.lastProbeAt = now;
+      this.probeInFlight = true;
+      // The reply goes through executeRequest, which records the round trip
+      this.executeRequest('get_output', undefined, { timeout: latencyProbeInterval }, true)
+        .catch(() => {
+          // A missed probe already shows up as silence or a degraded link
+        })
+        .finally(() => {
+          this.probeInFlight = false;
+        });
+    }
+
+    this.eventManager.emit('link_stats', this.linkQuality.getStats(stale));
+  }
+
+  private getSilentDuration(): number {
+    const lastActivity = this.connectionStateManager.getConnectionInfo()?.lastActivity;
+    return lastActivity ? Date.now() - lastActivity.getTime() : 0;
   }
 
   private stopHeartbeat(): void {
@@ -443,10 +613,37 @@ export class FreeShowService implements IFreeShowService {
     return this.connectionStateManager.isConnected();
   }
 
+  isApiAvailable(): boolean {
+    return !!this.socket && this.socket.connected;
+  }
+
   getConnectionInfo(): any {
     return this.connectionStateManager.getConnectionInfo();
   }
 
+  isReconnecting(): boolean {
+    return this.reconnectionSupervisor.isActive();
+  }
+
+  getConnectionHealth(): FreeShowConnectionHealth {
+    return this.health;
+  }
+
+  setConnectionTimeout(timeoutMs: number | null): void {
+    this.connectionTimeoutOverride = timeoutMs;
+  }
+
+  private getConnectionTimeout(): number {
+    return this.connectionTimeoutOverride ?? this.configService.getNetworkConfig().connectionTimeout;
+  }
+
+  getLinkStats(): IFreeShowLinkStats {
+    const stale = this.isConnected()
+      && this.linkQuality.hasSamples()
+      && this.getSilentDuration() > this.configService.getNetworkConfig().staleLinkThreshold;
+    return this.linkQuality.getStats(stale);
+  }
+
   // Event management
   on(event: string, callback: (data: any) => void): void {
     this.eventManager.addListener(event, callback);
@@ -458,28 +655,29 @@ export class FreeShowService implements IFreeShowService {
 
   // Remote control methods
   async nextSlide(): Promise<void> {
-    return this.sendRequest('next');
+    return this.sendRequest('next_slide', undefined, { expectResponse: false });
   }
 
   async previousSlide(): Promise<void> {
-    return this.sendRequest('previous');
+    return this.sendRequest('previous_slide', undefined, { expectResponse: false });
   }
 
   async gotoSlide(index: number): Promise<void> {
-    return this.sendRequest('goto', { index });
+    return this.sendRequest('index_select_slide', { index }, { expectResponse: false });
   }
 
   async toggleBlackout(): Promise<void> {
-    return this.sendRequest('blackout');
+    return this.sendRequest('blackout', undefined, { expectResponse: false });
   }
 
   // Show management
   async getShows(): Promise<any[]> {
-    return this.sendRequest('get_shows');
+    return decodeShows(await this.sendRequest('get_shows'));
   }
 
   async getSlides(showId: string): Promise<any[]> {
-    return this.sendRequest('get_slides', { showId });
+    const show = decodeShow(await this.sendRequest('get_show', { id: showId }));
+    return show?.slides || [];
   }
 
   async loadShow(showId: string): Promise<void> {
@@ -488,16 +686,19 @@ export class FreeShowService implements IFreeShowService {
 
   // Output management
   async getOutputs(): Promise<any[]> {
-    return this.sendRequest('get_outputs');
+    return decodeOutputs(await this.sendRequest('get_outputs'));
   }
 
   async setOutput(outputId: string, enabled: boolean): Promise<void> {
-    return this.sendRequest('set_output', { outputId, enabled });
+    return this.sendRequest('set_output', { outputId, enabled }, { expectResponse: false });
   }
 
   // Generic request handling with queue management
-  async sendRequest(action: string, data?: any): Promise<any> {
+  async sendRequest(action: string, data?: any, options: IFreeShowRequestOptions = {}): Promise<any> {
     if (!this.connectionStateManager.isConnected()) {
+      if (this.reconnectionSupervisor.isActive()) {
+        return this.handleOfflineRequest(action, data, options);
+      }
       throw new FreeShowConnectionError(
         'Not connected to FreeShow',
         'NOT_CONNECTED'
@@ -512,46 +713,114 @@ export class FreeShowService implements IFreeShowService {
       );
     }
 
-    return this.requestQueue.addRequest(action, data, this.executeRequest.bind(this));
+    return this.requestQueue.addRequest(
+      action,
+      data,
+      (queuedAction, queuedData) => this.executeRequest(queuedAction, queuedData, options),
+      options.sequence
+    );
   }
 
-  private async executeRequest(action: string, data?: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      if (!this.socket) {
-        reject(new FreeShowConnectionError('Socket not available', 'NO_SOCKET'));
-        return;
-      }
+  /**
+   * Applies the replay policy of a command sent while the connection is being re-established
+   * Only fire-and-forget commands are buffered, nobody is left waiting on a reply
+   * A buffered command resolves with its buffer entry, every other command is rejected
+   */
+  private handleOfflineRequest(
+    action: string,
+    data: any,
+    options: IFreeShowRequestOptions
+  ): IFreeShowBufferedRequest {
+    if (options.offlinePolicy === 'replay' && options.expectResponse === false) {
+      const buffered = this.requestQueue.bufferRequest(
+        options.replayKey ?? action,
+        action,
+        data,
+        (queuedAction, queuedData) => this.executeRequest(queuedAction, queuedData, options)
+      );
+      this.emitBufferChange();
+      return buffered;
+    }
 
-      const networkConfig = this.configService.getNetworkConfig();
-      const timeout = setTimeout(() => {
-        reject(new FreeShowTimeoutError(
-          `Request timeout for action: ${action}`,
-          networkConfig.connectionTimeout
-        ));
-      }, networkConfig.connectionTimeout);
+    this.eventManager.emit('command_dropped', {
+      action,
+      timestamp: new Date().toISOString(),
+    });
+    throw new FreeShowConnectionError(
+      options.offlinePolicy === 'drop'
+        ? `"${action}" was not sent while reconnecting, relative commands are not replayed`
+        : `"${action}" was not sent while reconnecting`,
+      'DROPPED_OFFLINE'
+    );
+  }
 
-      // Create response handler
-      const responseHandler = (response: any) => {
-        clearTimeout(timeout);
-        this.connectionStateManager.updateActivity();
-        
-        if (response.error) {
-          reject(new Error(response.error));
-        } else {
-          resolve(response.data || response);
-        }
-      };
+  private emitBufferChange(): void {
+    this.eventManager.emit('buffer', this.requestQueue.getBufferedRequests());
+  }
 
-      // Listen for response
-      this.socket.once(`${action}_response`, responseHandler);
+  private async executeRequest(
+    action: string,
+    data?: any,
+    options: IFreeShowRequestOptions = {},
+    isProbe = false
+  ): Promise<any> {
+    if (!this.socket) {
+      throw new FreeShowConnectionError('Socket not available', 'NO_SOCKET');
+    }
 
-      // Send request
-      this.socket.emit(action, data || {});
+    // Every outgoing command carries a correlation ID so its reply can be routed back here
+    const requestId = this.pendingRequests.createRequestId(action);
+    const payload = this.messageCodec.encode(action, data, requestId);
 
-      this.errorLogger.debug(
-        `Sent request: ${action}`,
-        this.logContext
+    // FreeShow does not answer plain commands, so resolve as soon as they are sent
+    if (options.expectResponse === false) {
+      this.socket.emit('data', payload);
+      this.errorLogger.debug(`Sent command: ${action}`, this.logContext, { requestId });
+      options.onSent?.();
+      return undefined;
+    }
+
+    const requestTimeout = options.timeout ?? this.getConnectionTimeout();
+
+    // Replies are matched by action, so wait for an earlier request of the same action to settle
+    return this.pendingRequests.serialize(action, async () => {
+      if (!this.socket) {
+        throw new FreeShowConnectionError('Socket not available', 'NO_SOCKET');
+      }
+
+      const response = this.pendingRequests.register(
+        requestId,
+        action,
+        requestTimeout,
+        () => new FreeShowTimeoutError(`Request timeout for action: ${action}`, requestTimeout)
       );
+
+      const sentAt = Date.now();
+      this.socket.emit('data', payload);
+      this.errorLogger.debug(`Sent request: ${action}`, this.logContext, { requestId });
+      options.onSent?.();
+
+      try {
+        const result = await response;
+        this.linkQuality.recordSample(Date.now() - sentAt);
+        this.connectionStateManager.updateActivity();
+        this.answeredActions.add(action);
+        if (this.health === 'degraded') {
+          this.setHealth('connected');
+        }
+        return result;
+      } catch (error) {
+        // The socket is still up but FreeShow stopped answering in time
+        // A probe only counts once one was answered, older versions may never reply to it,
+        // and get_* reads may simply not exist on this FreeShow version
+        const counts = isProbe
+          ? this.linkQuality.hasSamples()
+          : !action.startsWith('get_') && this.answeredActions.has(action);
+        if (error instanceof FreeShowTimeoutError && counts && this.health === 'connected') {
+          this.setHealth('degraded');
+        }
+        throw error;
+      }
     });
   }
 
@@ -564,7 +833,34 @@ export class FreeShowService implements IFreeShowService {
     this.requestQueue.clearQueue();
   }
 
+  cancelRequestSequence(sequence: string): void {
+    this.requestQueue.cancelSequence(sequence);
+  }
+
+  getPendingRequestCount(): number {
+    return this.pendingRequests.getPendingCount();
+  }
+
+  getBufferedRequests(): IFreeShowBufferedRequest[] {
+    return this.requestQueue.getBufferedRequests();
+  }
+
+  cancelBufferedRequest(id: string): boolean {
+    const cancelled = this.requestQueue.cancelBufferedRequest(id);
+    if (cancelled) {
+      this.emitBufferChange();
+    }
+    return cancelled;
+  }
+
+  clearBufferedRequests(): void {
+    if (this.requestQueue.clearBuffer() > 0) {
+      this.emitBufferChange();
+    }
+  }
+
   destroy(): void {
+    this.reconnectionSupervisor.stop();
     this.disconnect();
     this.eventManager.removeAllListeners();
     this.requestQueue.clearQueue();
@@ -2,7 +2,10 @@
 
 import { io, Socket } from 'socket.io-client';
 import { 
-  IFreeShowServiceConfig 
+  IFreeShowServiceConfig,
+  IFreeShowApiMessage,
+  IFreeShowBufferedRequest,
+  IFreeShowLinkStats
 } from '../interfaces/IFreeShowService';
 import { ErrorLogger } from '../ErrorLogger';
 import { configService } from '../../config/AppConfig';
@@ -75,6 +78,216 @@ export class ConnectionStateManager {
   }
 }
 
+/**
+ * Keeps a rolling window of round-trip samples to describe how well the link is doing
+ */
+export class LinkQualityMonitor {
+  private samples: number[] = [];
+
+  constructor(private readonly windowSize: number = configService.getNetworkConfig().latencySampleWindow) {}
+
+  recordSample(rtt: number): void {
+    this.samples.push(rtt);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  hasSamples(): boolean {
+    return this.samples.length > 0;
+  }
+
+  getStats(stale: boolean): IFreeShowLinkStats {
+    const count = this.samples.length;
+    const average = count > 0 ? this.samples.reduce((sum, rtt) => sum + rtt, 0) / count : null;
+
+    let jitter: number | null = null;
+    if (count > 1) {
+      let total = 0;
+      for (let i = 1; i < count; i++) {
+        total += Math.abs(this.samples[i] - this.samples[i - 1]);
+      }
+      jitter = total / (count - 1);
+    }
+
+    return {
+      lastRtt: count > 0 ? this.samples[count - 1] : null,
+      averageRtt: average !== null ? Math.round(average) : null,
+      jitter: jitter !== null ? Math.round(jitter) : null,
+      samples: count,
+      stale,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Encodes outgoing API commands and decodes replies on the FreeShow `data` channel
+ */
+export class ApiMessageCodec {
+  encode(action: string, data?: Record<string, any>, requestId?: string): string {
+    return JSON.stringify({ action, ...(data || {}), ...(requestId ? { requestId } : {}) });
+  }
+
+  decode(raw: any): IFreeShowApiMessage {
+    let parsed = raw;
+    if (typeof raw === 'string') {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        return { data: raw };
+      }
+    }
+
+    // FreeShow wraps some replies as { action, data }, others are sent as the bare payload
+    if (parsed && typeof parsed === 'object' && typeof parsed.action === 'string' && 'data' in parsed) {
+      return {
+        action: parsed.action,
+        data: parsed.data,
+        requestId: typeof parsed.requestId === 'string' ? parsed.requestId : undefined,
+      };
+    }
+
+    return { data: parsed };
+  }
+}
+
+interface PendingApiRequest {
+  id: string;
+  action: string;
+  sentAt: number;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks in-flight API requests so each reply on the shared `data` channel
+ * settles the promise that sent it
+ */
+export class PendingRequestRegistry {
+  // Map keeps insertion order, so iteration yields the oldest request first
+  private pending = new Map<string, PendingApiRequest>();
+  // Tail of the chain of requests per action, see serialize()
+  private actionChains = new Map<string, Promise<void>>();
+  private counter = 0;
+  private readonly logContext = 'PendingRequestRegistry';
+
+  createRequestId(action: string): string {
+    this.counter = (this.counter + 1) % Number.MAX_SAFE_INTEGER;
+    return `${action}_${Date.now().toString(36)}_${this.counter.toString(36)}`;
+  }
+
+  register(
+    requestId: string,
+    action: string,
+    timeoutMs: number,
+    createTimeoutError: () => Error
+  ): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(createTimeoutError());
+      }, timeoutMs);
+
+      this.pending.set(requestId, {
+        id: requestId,
+        action,
+        sentAt: Date.now(),
+        resolve,
+        reject,
+        timeout,
+      });
+    });
+  }
+
+  /**
+   * Run requests for the same action one after another.
+   * FreeShow does not echo request IDs, so two replies to the same action cannot be
+   * told apart. Keeping a single one in flight per action makes action matching exact.
+   */
+  async serialize<T>(action: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.actionChains.get(action) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.then(
+      () => undefined,
+      () => undefined
+    );
+    this.actionChains.set(action, settled);
+
+    try {
+      return await run;
+    } finally {
+      if (this.actionChains.get(action) === settled) {
+        this.actionChains.delete(action);
+      }
+    }
+  }
+
+  /**
+   * Settle the request a reply belongs to.
+   * Replies are matched by echoed request ID first, then by action.
+   * Returns false when no request claims the message, bare payloads are never claimed.
+   */
+  route(message: IFreeShowApiMessage): boolean {
+    const request = this.findRequest(message);
+    if (!request) {
+      return false;
+    }
+
+    clearTimeout(request.timeout);
+    this.pending.delete(request.id);
+
+    if (message.data && typeof message.data === 'object' && message.data.error) {
+      request.reject(new Error(message.data.error));
+    } else {
+      request.resolve(message.data);
+    }
+
+    ErrorLogger.debug(`Routed reply for ${request.action}`, this.logContext, {
+      requestId: request.id,
+      latency: Date.now() - request.sentAt,
+    });
+    return true;
+  }
+
+  rejectAll(error: Error): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  private findRequest(message: IFreeShowApiMessage): PendingApiRequest | undefined {
+    if (message.requestId) {
+      // A tagged reply for a request we no longer track (e.g. timed out) is not ours to reassign
+      return this.pending.get(message.requestId);
+    }
+
+    // A payload without an action could belong to anything, leave it to the unsolicited listeners
+    if (!message.action) {
+      return undefined;
+    }
+
+    // Requests are serialized per action, so at most one can be waiting for this reply
+    for (const request of this.pending.values()) {
+      if (request.action === message.action) {
+        return request;
+      }
+    }
+    return undefined;
+  }
+}
+
 /**
  * Event manager implementation
  */
@@ -143,20 +356,139 @@ export const defaultFreeShowServiceConfig: IFreeShowServiceConfig = {
   requestQueueSize: 100,
 };
 
+/**
+ * Keeps retrying a dropped connection with jittered exponential backoff
+ * There is no retry limit, the owner pauses it while the app is in the background
+ */
+export class ReconnectionSupervisor {
+  private attempt = 0;
+  private active = false;
+  private paused = false;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly logContext = 'ReconnectionSupervisor';
+
+  constructor(
+    private readonly attemptReconnect: () => Promise<void>,
+    private readonly onScheduled: (attempt: number, delay: number) => void,
+    private readonly onRecovered: (attempts: number) => void
+  ) {}
+
+  /**
+   * Delay before the given attempt, doubling from reconnectDelay up to maxReconnectDelay
+   * Half of it is randomised so a room full of remotes does not retry in lockstep
+   */
+  static computeDelay(attempt: number): number {
+    const { reconnectDelay, maxReconnectDelay } = configService.getNetworkConfig();
+    const ceiling = Math.min(maxReconnectDelay, reconnectDelay * 2 ** Math.max(0, attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.attempt = 0;
+    if (!this.paused) {
+      this.scheduleNext();
+    }
+  }
+
+  stop(): void {
+    this.active = false;
+    this.attempt = 0;
+    this.clearTimer();
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    // Coming back to the foreground is a good moment to try straight away
+    if (this.active && !this.running) {
+      this.scheduleNext(0);
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getAttempt(): number {
+    return this.attempt;
+  }
+
+  private scheduleNext(delay?: number): void {
+    this.clearTimer();
+    this.attempt++;
+    const wait = delay ?? ReconnectionSupervisor.computeDelay(this.attempt);
+    this.onScheduled(this.attempt, wait);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runAttempt();
+    }, wait);
+  }
+
+  private async runAttempt(): Promise<void> {
+    if (!this.active || this.paused) return;
+
+    this.running = true;
+    try {
+      await this.attemptReconnect();
+      this.running = false;
+      if (!this.active) return;
+      const attempts = this.attempt;
+      this.active = false;
+      this.attempt = 0;
+      this.onRecovered(attempts);
+    } catch (error) {
+      this.running = false;
+      ErrorLogger.debug(`Reconnection attempt ${this.attempt} failed`, this.logContext, { error });
+      if (this.active && !this.paused) {
+        this.scheduleNext();
+      }
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
 /**
  * Request queue manager for handling concurrent requests
+ * Requests that share a sequence key run one at a time, in the order they were added
+ * Commands sent while offline wait in a separate buffer until they are replayed or cancelled
  */
 export class RequestQueueManager {
   private queue: Array<{
     id: string;
     action: string;
     data?: any;
+    executor?: (action: string, data?: any) => Promise<any>;
+    sequence?: string;
     resolve: (value: any) => void;
     reject: (error: Error) => void;
     timestamp: number;
   }> = [];
+
+  private buffer: Array<IFreeShowBufferedRequest & {
+    key: string;
+    executor: (action: string, data?: any) => Promise<any>;
+  }> = [];
   
   private activeRequests = new Set<string>();
+  private activeSequences = new Set<string>();
   private readonly maxConcurrentRequests: number;
   private readonly maxQueueSize: number;
   private readonly logContext = 'RequestQueueManager';
@@ -169,7 +501,8 @@ export class RequestQueueManager {
   async addRequest(
     action: string, 
     data?: any, 
-    executor?: (action: string, data?: any) => Promise<any>
+    executor?: (action: string, data?: any) => Promise<any>,
+    sequence?: string
   ): Promise<any> {
     return new Promise((resolve, reject) => {
       const requestId = `${action}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -183,25 +516,42 @@ export class RequestQueueManager {
         id: requestId,
         action,
         data,
+        executor,
+        sequence,
         resolve,
         reject,
         timestamp: Date.now(),
       });
 
       ErrorLogger.debug(`Request queued: ${action}`, this.logContext, { requestId, queueLength: this.queue.length });
-      this.processQueue(executor);
+      this.processQueue();
     });
   }
 
-  private async processQueue(executor?: (action: string, data?: any) => Promise<any>): Promise<void> {
-    if (!executor || this.activeRequests.size >= this.maxConcurrentRequests || this.queue.length === 0) {
+  private async processQueue(): Promise<void> {
+    if (this.activeRequests.size >= this.maxConcurrentRequests || this.queue.length === 0) {
       return;
     }
 
-    const request = this.queue.shift();
-    if (!request) return;
+    // Skip requests whose sequence is still busy with an earlier request
+    const index = this.queue.findIndex(
+      queued => !queued.sequence || !this.activeSequences.has(queued.sequence)
+    );
+    if (index < 0) return;
+    const [request] = this.queue.splice(index, 1);
+
+    // Each request carries its own executor so options bound by the caller are never mixed up
+    const executor = request.executor;
+    if (!executor) {
+      request.reject(new Error(`No executor for request: ${request.action}`));
+      setTimeout(() => this.processQueue(), 0);
+      return;
+    }
 
     this.activeRequests.add(request.id);
+    if (request.sequence) {
+      this.activeSequences.add(request.sequence);
+    }
     ErrorLogger.debug(`Processing request: ${request.action}`, this.logContext, { requestId: request.id });
 
     try {
@@ -215,8 +565,11 @@ export class RequestQueueManager {
       );
     } finally {
       this.activeRequests.delete(request.id);
+      if (request.sequence) {
+        this.activeSequences.delete(request.sequence);
+      }
       // Process next request
-      setTimeout(() => this.processQueue(executor), 0);
+      setTimeout(() => this.processQueue(), 0);
     }
   }
 
@@ -242,4 +595,100 @@ export class RequestQueueManager {
     this.queue = [];
     ErrorLogger.info('Request queue cleared', this.logContext);
   }
+
+  /**
+   * Hold a command until the connection is back
+   * A later command with the same key replaces the earlier one, so only the latest target is replayed
+   */
+  bufferRequest(
+    key: string,
+    action: string,
+    data: any,
+    executor: (action: string, data?: any) => Promise<any>
+  ): IFreeShowBufferedRequest {
+    const existing = this.buffer.findIndex(request => request.key === key);
+    if (existing >= 0) {
+      this.buffer.splice(existing, 1);
+    } else if (this.buffer.length >= this.maxQueueSize) {
+      throw new Error('Offline command buffer is full');
+    }
+
+    const request = {
+      id: `${action}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      key,
+      action,
+      data,
+      executor,
+      bufferedAt: Date.now(),
+    };
+    this.buffer.push(request);
+    ErrorLogger.debug(`Request buffered while offline: ${action}`, this.logContext, { key, bufferLength: this.buffer.length });
+    return this.toBufferedRequest(request);
+  }
+
+  getBufferedRequests(): IFreeShowBufferedRequest[] {
+    return this.buffer.map(request => this.toBufferedRequest(request));
+  }
+
+  cancelBufferedRequest(id: string): boolean {
+    const before = this.buffer.length;
+    this.buffer = this.buffer.filter(request => request.id !== id);
+    return this.buffer.length < before;
+  }
+
+  clearBuffer(): number {
+    const cleared = this.buffer.length;
+    this.buffer = [];
+    return cleared;
+  }
+
+  /**
+   * Move buffered commands into the queue, in the order they were sent
+   * Commands older than maxAge are discarded, replaying them would surprise whoever is presenting
+   */
+  replayBuffer(maxAge: number): number {
+    const now = Date.now();
+    const buffered = this.buffer;
+    this.buffer = [];
+
+    let replayed = 0;
+    buffered.forEach(request => {
+      if (now - request.bufferedAt > maxAge) {
+        ErrorLogger.info(`Discarded stale offline command: ${request.action}`, this.logContext, { age: now - request.bufferedAt });
+        return;
+      }
+
+      replayed++;
+      this.addRequest(request.action, request.data, request.executor).catch(error => {
+        ErrorLogger.warn(`Replayed command failed: ${request.action}`, this.logContext,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+    });
+    return replayed;
+  }
+
+  private toBufferedRequest(request: IFreeShowBufferedRequest): IFreeShowBufferedRequest {
+    return {
+      id: request.id,
+      action: request.action,
+      data: request.data,
+      bufferedAt: request.bufferedAt,
+    };
+  }
+
+  /**
+   * Reject the queued requests of a sequence that have not started yet
+   */
+  cancelSequence(sequence: string): number {
+    const cancelled = this.queue.filter(request => request.sequence === sequence);
+    this.queue = this.queue.filter(request => request.sequence !== sequence);
+    cancelled.forEach(request => {
+      request.reject(new Error('Request sequence cancelled'));
+    });
+    if (cancelled.length > 0) {
+      ErrorLogger.info(`Request sequence cancelled: ${sequence}`, this.logContext, { cancelled: cancelled.length });
+    }
+    return cancelled.length;
+  }
 }
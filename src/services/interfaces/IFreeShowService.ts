@@ -12,6 +12,82 @@ export interface IFreeShowServiceConfig {
   requestQueueSize: number;
 }
 
+/**
+ * Round-trip statistics measured from API replies and the heartbeat probe, in milliseconds
+ */
+export interface IFreeShowLinkStats {
+  lastRtt: number | null;
+  averageRtt: number | null;
+  // Mean difference between consecutive samples
+  jitter: number | null;
+  samples: number;
+  // Nothing arrived from FreeShow within staleLinkThreshold
+  stale: boolean;
+  timestamp: string;
+}
+
+/**
+ * What happens to a fire-and-forget command sent while the connection is being re-established
+ * replay buffers it until the socket is back, drop refuses it so a relative move is never sent late
+ */
+export type FreeShowReplayPolicy = 'replay' | 'drop';
+
+/**
+ * Options for a single request sent over the FreeShow API
+ */
+export interface IFreeShowRequestOptions {
+  // Fire-and-forget commands resolve as soon as they are sent
+  expectResponse?: boolean;
+  timeout?: number;
+  // Requests sharing a sequence key run strictly one after another, whatever the concurrency limit
+  sequence?: string;
+  // Commands without a policy fail with NOT_CONNECTED while offline
+  offlinePolicy?: FreeShowReplayPolicy;
+  // Buffered commands sharing a replay key collapse to the latest one, defaults to the action
+  replayKey?: string;
+  // Called once the command actually went out, for a buffered command that is on replay
+  onSent?: () => void;
+}
+
+/**
+ * Command waiting in the offline buffer for the connection to come back
+ */
+export interface IFreeShowBufferedRequest {
+  id: string;
+  action: string;
+  data?: any;
+  bufferedAt: number;
+}
+
+/**
+ * Decoded message received on the FreeShow `data` channel
+ */
+export interface IFreeShowApiMessage {
+  action?: string;
+  data: any;
+  // Correlation ID echoed back by FreeShow, when present
+  requestId?: string;
+}
+
+/**
+ * Health of the link to FreeShow
+ * degraded means the socket is up but requests are timing out,
+ * offline means nothing is being retried (manual disconnect or app in the background)
+ */
+export type FreeShowConnectionHealth = 'connected' | 'degraded' | 'reconnecting' | 'offline';
+
+/**
+ * Payload of the `health` event
+ */
+export interface IFreeShowHealthEvent {
+  health: FreeShowConnectionHealth;
+  // Reconnection attempt in progress, 0 when not reconnecting
+  attempt: number;
+  // Delay before that attempt starts, in milliseconds
+  retryIn?: number;
+  timestamp: string;
+}
+
 /**
  * Interface for FreeShow service itself
  */
@@ -20,10 +96,20 @@ export interface IFreeShowService {
   connect(host: string, port?: number, nickname?: string): Promise<void>;
   disconnect(): Promise<void>;
   reconnect(): Promise<void>;
+  // Automatic reconnection only runs while the app is in the foreground
+  pauseReconnection(): void;
+  resumeReconnection(): void;
+  // While true, commands are buffered or refused by their replay policy instead of sent
+  isReconnecting(): boolean;
+  // Per-connection override of the connect and request timeout, null restores the default
+  setConnectionTimeout(timeoutMs: number | null): void;
 
   // Connection state
   isConnected(): boolean;
+  isApiAvailable(): boolean;
   getConnectionInfo(): any;
+  getConnectionHealth(): FreeShowConnectionHealth;
+  getLinkStats(): IFreeShowLinkStats;
 
   // Event management
   on(event: string, callback: (data: any) => void): void;
@@ -44,6 +130,12 @@ export interface IFreeShowService {
   getOutputs(): Promise<any[]>;
   setOutput(outputId: string, enabled: boolean): Promise<void>;
 
-  // Generic request handling
-  sendRequest(action: string, data?: any): Promise<any>;
+  // Generic request handling, while reconnecting a buffered command resolves with its buffer entry
+  sendRequest(action: string, data?: any, options?: IFreeShowRequestOptions): Promise<any>;
+  cancelRequestSequence(sequence: string): void;
+
+  // Offline command buffer
+  getBufferedRequests(): IFreeShowBufferedRequest[];
+  cancelBufferedRequest(id: string): boolean;
+  clearBufferedRequests(): void;
 }
@@ -58,6 +58,7 @@ export interface FreeShowSlide {
   };
   notes?: string;
   items?: FreeShowSlideItem[];
+  missing?: boolean; // Set by the app for a layout entry whose slide the show does not define
 }
 
 export interface FreeShowSlideItem {
@@ -105,6 +106,135 @@ export interface FreeShowOutput {
   slideIndex?: number;
   showId?: string;
   layoutId?: string;
+  layers?: FreeShowOutputLayers;
+  activeOverlays?: string[];
+  blackout?: boolean; // Missing when this FreeShow version does not report it
+  projectId?: string; // Active project and the position of the live item in it, when reported
+  projectItemIndex?: number;
+}
+
+// Whether each output layer currently holds content
+export interface FreeShowOutputLayers {
+  background: boolean;
+  slide: boolean;
+  overlays: boolean;
+  audio: boolean;
+  nextTimer: boolean;
+}
+
+export type FreeShowOutputLayer = keyof FreeShowOutputLayers;
+
+// An output window as configured in FreeShow
+export interface FreeShowOutputInfo {
+  id: string;
+  name: string;
+  enabled: boolean;
+  locked: boolean;
+  isStage: boolean;
+  isMain: boolean; // As flagged by FreeShow, never inferred
+  styleId?: string;
+}
+
+export interface FreeShowBible {
+  id: string;
+  name: string;
+}
+
+export interface FreeShowScriptureVerse {
+  number: number;
+  text: string;
+}
+
+export interface FreeShowTimer {
+  id: string;
+  name: string;
+  type: 'counter' | 'clock' | 'event';
+  remaining: number | null; // seconds, as last reported by FreeShow
+  isRunning: boolean;
+  isPaused: boolean;
+}
+
+export interface FreeShowAudioTrack {
+  id: string; // file path, as FreeShow identifies audio
+  name: string;
+}
+
+export interface FreeShowAudioPlaylist {
+  id: string;
+  name: string;
+  tracks: string[];
+}
+
+export interface FreeShowAudioState {
+  tracks: FreeShowAudioTrack[];
+  playlists: FreeShowAudioPlaylist[];
+  playing: {
+    id: string;
+    name: string;
+    isPaused: boolean;
+    position: number; // seconds
+    duration: number; // seconds
+  } | null;
+  volume: number; // 0-100
+}
+
+export interface FreeShowOverlay {
+  id: string;
+  name: string;
+  category?: string;
+}
+
+export interface FreeShowStyle {
+  id: string;
+  name: string;
+}
+
+export interface FreeShowProject {
+  id: string;
+  name: string;
+  created?: number;
+  parent?: string;
+  shows: FreeShowProjectItem[];
+}
+
+export interface FreeShowProjectItem {
+  id: string;
+  type?: 'show' | 'video' | 'image' | 'audio' | 'section' | 'pdf' | 'player' | string;
+  name?: string;
+  layout?: string;
+}
+
+// A user-configurable button in the API mode deck
+export interface APIDeckButton {
+  id: string;
+  label: string;
+  icon: string; // Ionicons name
+  color: string;
+  action: string; // Any FreeShow API action
+  data?: Record<string, any>;
+}
+
+export interface APIDeck {
+  presetId?: string; // Preset the deck started from, if any
+  columns: number;
+  buttons: APIDeckButton[];
+}
+
+// One step of a macro, optionally followed by a pause before the next step
+export interface APIMacroStep {
+  id: string;
+  action: string;
+  data?: Record<string, any>;
+  delayAfter?: number; // seconds
+}
+
+// An ordered list of API actions run from a single button
+export interface APIMacro {
+  id: string;
+  name: string;
+  icon: string; // Ionicons name
+  color: string;
+  steps: APIMacroStep[];
 }
 
 export interface RemoteAction {
@@ -0,0 +1,24 @@
+export type ActionParamsResult =
+  | { isValid: true; data: Record<string, any> | undefined }
+  | { isValid: false; error: string };
+
+/**
+ * Parse the optional JSON parameters typed in for an API action
+ */
+export const parseActionParams = (text: string): ActionParamsResult => {
+  if (!text.trim()) {
+    return { isValid: true, data: undefined };
+  }
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { isValid: false, error: 'Parameters must be a JSON object' };
+    }
+    return { isValid: true, data: parsed };
+  } catch {
+    return { isValid: false, error: 'Invalid JSON' };
+  }
+};
+
+export const formatActionParams = (data?: Record<string, any>): string =>
+  data && Object.keys(data).length > 0 ? JSON.stringify(data) : '';
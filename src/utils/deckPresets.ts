@@ -0,0 +1,152 @@
+import { Ionicons } from '@expo/vector-icons';
+import { APIDeck, APIDeckButton } from '../types';
+
+export interface DeckPreset {
+  id: string;
+  name: string;
+  description: string;
+  columns: number;
+  buttons: Omit<APIDeckButton, 'id'>[];
+}
+
+const PREVIOUS_SLIDE = {
+  label: 'Previous',
+  icon: 'chevron-back',
+  color: '#6c757d',
+  action: 'previous_slide',
+};
+const NEXT_SLIDE = {
+  label: 'Next',
+  icon: 'chevron-forward',
+  color: '#8B5CF6',
+  action: 'next_slide',
+};
+const PREVIOUS_ITEM = {
+  label: 'Previous Item',
+  icon: 'play-skip-back',
+  color: '#007bff',
+  action: 'previous_project_item',
+};
+const NEXT_ITEM = {
+  label: 'Next Item',
+  icon: 'play-skip-forward',
+  color: '#007bff',
+  action: 'next_project_item',
+};
+const CLEAR_ALL = {
+  label: 'Clear All',
+  icon: 'close-circle',
+  color: '#dc3545',
+  action: 'clear_all',
+};
+
+// The deck every connection starts with, matching the controls API mode always had
+export const DEFAULT_PRESET_ID = 'standard';
+
+export const DECK_PRESETS: DeckPreset[] = [
+  {
+    id: DEFAULT_PRESET_ID,
+    name: 'Standard',
+    description: 'Slide and project navigation with clear all',
+    columns: 2,
+    buttons: [PREVIOUS_SLIDE, NEXT_SLIDE, PREVIOUS_ITEM, NEXT_ITEM, CLEAR_ALL],
+  },
+  {
+    id: 'worship',
+    name: 'Worship',
+    description: 'Lyrics with quick clears for slides, backgrounds and overlays',
+    columns: 3,
+    buttons: [
+      PREVIOUS_SLIDE,
+      NEXT_SLIDE,
+      { label: 'Clear Text', icon: 'text', color: '#fd7e14', action: 'clear_slide' },
+      PREVIOUS_ITEM,
+      NEXT_ITEM,
+      { label: 'Clear Background', icon: 'image', color: '#fd7e14', action: 'clear_background' },
+      { label: 'Clear Overlays', icon: 'layers', color: '#fd7e14', action: 'clear_overlays' },
+      CLEAR_ALL,
+    ],
+  },
+  {
+    id: 'sermon',
+    name: 'Sermon',
+    description: 'Large slide buttons with timer and text clears',
+    columns: 2,
+    buttons: [
+      PREVIOUS_SLIDE,
+      NEXT_SLIDE,
+      { label: 'Clear Text', icon: 'text', color: '#fd7e14', action: 'clear_slide' },
+      { label: 'Clear Timer', icon: 'timer', color: '#fd7e14', action: 'clear_next_timer' },
+      CLEAR_ALL,
+    ],
+  },
+  {
+    id: 'media',
+    name: 'Media',
+    description: 'Audio transport and background control for media playback',
+    columns: 3,
+    buttons: [
+      PREVIOUS_ITEM,
+      { label: 'Pause Audio', icon: 'pause', color: '#e83e8c', action: 'pause_audio' },
+      NEXT_ITEM,
+      { label: 'Stop Audio', icon: 'stop', color: '#e83e8c', action: 'stop_audio' },
+      { label: 'Clear Audio', icon: 'volume-mute', color: '#fd7e14', action: 'clear_audio' },
+      { label: 'Clear Background', icon: 'image', color: '#fd7e14', action: 'clear_background' },
+      CLEAR_ALL,
+    ],
+  },
+];
+
+// Icons and colours offered when customising deck buttons and macros
+export const DECK_ICON_OPTIONS: (keyof typeof Ionicons.glyphMap)[] = [
+  'chevron-back',
+  'chevron-forward',
+  'play-skip-back',
+  'play-skip-forward',
+  'play',
+  'pause',
+  'stop',
+  'close-circle',
+  'text',
+  'image',
+  'layers',
+  'timer',
+  'musical-notes',
+  'volume-mute',
+  'moon',
+  'book',
+  'chatbox-ellipses',
+  'flash',
+  'star',
+];
+
+export const DECK_COLOR_OPTIONS = [
+  '#8B5CF6',
+  '#007bff',
+  '#17a2b8',
+  '#28a745',
+  '#ffc107',
+  '#fd7e14',
+  '#dc3545',
+  '#e83e8c',
+  '#6c757d',
+  '#343a40',
+];
+
+// Only the hold-to-confirm safety control may send these, never a deck button or macro step
+const HOLD_ONLY_ACTIONS = ['blackout'];
+
+export const isHoldOnlyAction = (action: string): boolean =>
+  HOLD_ONLY_ACTIONS.includes(action.trim());
+
+export const createDeckButtonId = (): string =>
+  `btn_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const createDeckFromPreset = (presetId: string): APIDeck => {
+  const preset = DECK_PRESETS.find(item => item.id === presetId) ?? DECK_PRESETS[0];
+  return {
+    presetId: preset.id,
+    columns: preset.columns,
+    buttons: preset.buttons.map(button => ({ ...button, id: createDeckButtonId() })),
+  };
+};
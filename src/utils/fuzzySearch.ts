@@ -0,0 +1,66 @@
+/**
+ * Small fuzzy matcher for searching lists by name
+ * Characters of the query must appear in order; consecutive runs and word starts score higher
+ */
+
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Score how well `query` matches `text`, or return null when it does not match at all
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = normalize(query.trim());
+  if (!needle) return 0;
+
+  const haystack = normalize(text);
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex >= 0) {
+    // Plain substring matches always beat scattered ones, earlier ones rank higher
+    return 1000 - substringIndex;
+  }
+
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+
+    const found = haystack.indexOf(char, position);
+    if (found < 0) return null;
+
+    const isWordStart = found === 0 || /[\s\-_.,'()]/.test(haystack[found - 1]);
+    streak = found === position ? streak + 1 : 0;
+    score += 1 + streak * 2 + (isWordStart ? 5 : 0);
+    position = found + 1;
+  }
+
+  return score;
+};
+
+/**
+ * Filter and rank items by their best matching field
+ */
+export const fuzzyFilter = <T>(
+  items: T[],
+  query: string,
+  getFields: (item: T) => (string | undefined)[]
+): T[] => {
+  if (!query.trim()) return items;
+
+  return items
+    .map(item => {
+      const scores = getFields(item)
+        .filter((field): field is string => !!field)
+        .map(field => fuzzyScore(query, field))
+        .filter((score): score is number => score !== null);
+      return { item, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.item);
+};
@@ -0,0 +1,202 @@
+/**
+ * Scripture reference parsing
+ * Turns input like "John 3:16-18", "1 Cor 13" or "ps 23:1" into a validated reference
+ */
+
+export interface BibleBook {
+  number: number; // 1-based position in the canon, as FreeShow numbers books
+  name: string;
+  chapters: number;
+  aliases: string[];
+}
+
+export interface ScriptureReference {
+  book: BibleBook;
+  chapter: number;
+  startVerse?: number;
+  endVerse?: number;
+}
+
+export type ScriptureParseResult =
+  | { isValid: true; reference: ScriptureReference }
+  | { isValid: false; error: string };
+
+const BOOKS: [string, number, string[]][] = [
+  ['Genesis', 50, ['gen', 'ge', 'gn']],
+  ['Exodus', 40, ['exo', 'ex', 'exod']],
+  ['Leviticus', 27, ['lev', 'le', 'lv']],
+  ['Numbers', 36, ['num', 'nu', 'nm']],
+  ['Deuteronomy', 34, ['deut', 'dt', 'deu']],
+  ['Joshua', 24, ['josh', 'jos']],
+  ['Judges', 21, ['judg', 'jdg']],
+  ['Ruth', 4, ['rth', 'ru']],
+  ['1 Samuel', 31, ['1 sam', '1 sa', '1sm']],
+  ['2 Samuel', 24, ['2 sam', '2 sa', '2sm']],
+  ['1 Kings', 22, ['1 kgs', '1 ki', '1kgs']],
+  ['2 Kings', 25, ['2 kgs', '2 ki', '2kgs']],
+  ['1 Chronicles', 29, ['1 chr', '1 ch', '1chron']],
+  ['2 Chronicles', 36, ['2 chr', '2 ch', '2chron']],
+  ['Ezra', 10, ['ezr']],
+  ['Nehemiah', 13, ['neh', 'ne']],
+  ['Esther', 10, ['est', 'esth']],
+  ['Job', 42, ['jb']],
+  ['Psalms', 150, ['psalm', 'ps', 'psa', 'pss']],
+  ['Proverbs', 31, ['prov', 'pro', 'prv']],
+  ['Ecclesiastes', 12, ['eccl', 'ecc', 'qoh']],
+  ['Song of Solomon', 8, ['song', 'song of songs', 'sos', 'canticles']],
+  ['Isaiah', 66, ['isa', 'is']],
+  ['Jeremiah', 52, ['jer', 'je']],
+  ['Lamentations', 5, ['lam', 'la']],
+  ['Ezekiel', 48, ['ezek', 'eze', 'ezk']],
+  ['Daniel', 12, ['dan', 'da', 'dn']],
+  ['Hosea', 14, ['hos', 'ho']],
+  ['Joel', 3, ['jl']],
+  ['Amos', 9, ['am']],
+  ['Obadiah', 1, ['obad', 'ob']],
+  ['Jonah', 4, ['jon', 'jnh']],
+  ['Micah', 7, ['mic', 'mc']],
+  ['Nahum', 3, ['nah', 'na']],
+  ['Habakkuk', 3, ['hab', 'hb']],
+  ['Zephaniah', 3, ['zeph', 'zep']],
+  ['Haggai', 2, ['hag', 'hg']],
+  ['Zechariah', 14, ['zech', 'zec']],
+  ['Malachi', 4, ['mal', 'ml']],
+  ['Matthew', 28, ['matt', 'mt', 'mat']],
+  ['Mark', 16, ['mrk', 'mk', 'mr']],
+  ['Luke', 24, ['luk', 'lk']],
+  ['John', 21, ['jhn', 'jn']],
+  ['Acts', 28, ['act', 'ac']],
+  ['Romans', 16, ['rom', 'ro', 'rm']],
+  ['1 Corinthians', 16, ['1 cor', '1 co']],
+  ['2 Corinthians', 13, ['2 cor', '2 co']],
+  ['Galatians', 6, ['gal', 'ga']],
+  ['Ephesians', 6, ['eph', 'ephes']],
+  ['Philippians', 4, ['phil', 'php', 'pp']],
+  ['Colossians', 4, ['col', 'co']],
+  ['1 Thessalonians', 5, ['1 thess', '1 th']],
+  ['2 Thessalonians', 3, ['2 thess', '2 th']],
+  ['1 Timothy', 6, ['1 tim', '1 ti']],
+  ['2 Timothy', 4, ['2 tim', '2 ti']],
+  ['Titus', 3, ['tit', 'ti']],
+  ['Philemon', 1, ['philem', 'phm', 'pm']],
+  ['Hebrews', 13, ['heb']],
+  ['James', 5, ['jas', 'jm']],
+  ['1 Peter', 5, ['1 pet', '1 pe', '1 pt']],
+  ['2 Peter', 3, ['2 pet', '2 pe', '2 pt']],
+  ['1 John', 5, ['1 jn', '1 jhn', '1 jo']],
+  ['2 John', 1, ['2 jn', '2 jhn', '2 jo']],
+  ['3 John', 1, ['3 jn', '3 jhn', '3 jo']],
+  ['Jude', 1, ['jud', 'jd']],
+  ['Revelation', 22, ['rev', 're', 'revelations', 'apocalypse']],
+];
+
+export const BIBLE_BOOKS: BibleBook[] = BOOKS.map(([name, chapters, aliases], index) => ({
+  number: index + 1,
+  name,
+  chapters,
+  aliases,
+}));
+
+// "1st John", "I John", "1john" and "1 john" all normalize to "1 john"
+const normalizeBookName = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/^(iii|3rd|third)\s*/, '3 ')
+    .replace(/^(ii|2nd|second)\s*/, '2 ')
+    .replace(/^(i|1st|first)\s+/, '1 ')
+    .replace(/^([1-3])\s*/, '$1 ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const BOOK_LOOKUP = new Map<string, BibleBook>();
+BIBLE_BOOKS.forEach(book => {
+  [book.name, ...book.aliases].forEach(name => {
+    BOOK_LOOKUP.set(normalizeBookName(name), book);
+  });
+});
+
+/**
+ * Find a book by full name, alias or unambiguous prefix
+ */
+export const findBibleBook = (input: string): BibleBook | null => {
+  const normalized = normalizeBookName(input);
+  if (!normalized) return null;
+
+  const exact = BOOK_LOOKUP.get(normalized);
+  if (exact) return exact;
+
+  const candidates = BIBLE_BOOKS.filter(book =>
+    normalizeBookName(book.name).startsWith(normalized)
+  );
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+const REFERENCE_PATTERN = /^(.+?)\s*(\d+)(?:\s*:\s*(\d+))?(?:\s*[-–]\s*(\d+))?$/;
+
+// Psalm 119, the exact count per chapter is only known once FreeShow sends the chapter
+const MAX_VERSES_PER_CHAPTER = 176;
+
+/**
+ * Parse a reference such as "John 3:16-18" and check it against the book's chapter count
+ */
+export const parseScriptureReference = (input: string): ScriptureParseResult => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { isValid: false, error: 'Enter a reference, e.g. John 3:16' };
+  }
+
+  const match = trimmed.match(REFERENCE_PATTERN);
+  if (!match) {
+    return { isValid: false, error: 'Use the form "Book chapter:verse", e.g. John 3:16-18' };
+  }
+
+  const [, bookInput, numberInput, verseInput, endInput] = match;
+  const book = findBibleBook(bookInput);
+  if (!book) {
+    return { isValid: false, error: `Unknown book "${bookInput.trim()}"` };
+  }
+
+  // Jude 5 or 3 John 2-4 name verses, those books only have one chapter
+  const versesOnly = book.chapters === 1 && !verseInput;
+  const startInput = versesOnly ? numberInput : verseInput;
+  if (endInput && !startInput) {
+    return { isValid: false, error: 'Ranges need verses, e.g. John 3:16-18' };
+  }
+
+  const chapter = versesOnly ? 1 : parseInt(numberInput, 10);
+  if (chapter < 1 || chapter > book.chapters) {
+    return {
+      isValid: false,
+      error: `${book.name} has ${book.chapters} chapter${book.chapters === 1 ? '' : 's'}`,
+    };
+  }
+
+  const startVerse = startInput ? parseInt(startInput, 10) : undefined;
+  const endVerse = endInput ? parseInt(endInput, 10) : undefined;
+  if (startVerse !== undefined && startVerse < 1) {
+    return { isValid: false, error: 'Verses start at 1' };
+  }
+  if ((endVerse ?? startVerse ?? 0) > MAX_VERSES_PER_CHAPTER) {
+    return { isValid: false, error: `No chapter has more than ${MAX_VERSES_PER_CHAPTER} verses` };
+  }
+  if (startVerse !== undefined && endVerse !== undefined && endVerse < startVerse) {
+    return { isValid: false, error: 'The verse range ends before it starts' };
+  }
+
+  return {
+    isValid: true,
+    reference: {
+      book,
+      chapter,
+      startVerse,
+      endVerse: endVerse === startVerse ? undefined : endVerse,
+    },
+  };
+};
+
+export const formatScriptureReference = (reference: ScriptureReference): string => {
+  const { book, chapter, startVerse, endVerse } = reference;
+  if (startVerse === undefined) return `${book.name} ${chapter}`;
+  return `${book.name} ${chapter}:${startVerse}${endVerse !== undefined ? `-${endVerse}` : ''}`;
+};
@@ -0,0 +1,54 @@
+import { FreeShowLayout, FreeShowShow, FreeShowSlide } from '../types';
+
+/**
+ * Get the plain text of a slide, one line of text per line
+ */
+export function getSlideText(slide: FreeShowSlide | null | undefined): string {
+  if (!slide?.items) return '';
+
+  return slide.items
+    .filter(item => item.lines)
+    .flatMap(item => item.lines || [])
+    .map(line => (line.text || []).map(text => text.value || '').join(''))
+    .filter(line => line.trim().length > 0)
+    .join('\n');
+}
+
+/**
+ * Get the layout to show for a show, falling back to its first layout
+ */
+export function getShowLayout(
+  show: FreeShowShow | null | undefined,
+  layoutId?: string
+): FreeShowLayout | null {
+  if (!show?.layouts) return null;
+
+  const layouts = Object.entries(show.layouts).map(([id, layout]) => ({
+    ...layout,
+    id: layout.id ?? id,
+  }));
+  return layouts.find(layout => layout.id === layoutId) || layouts[0] || null;
+}
+
+/**
+ * Resolve the ordered slides of a layout against the show's slide definitions
+ * Layout slides only reference slides by ID, and may be stored as an array or a keyed map
+ * An ID that doesn't resolve keeps its place as a missing slide, FreeShow counts it in slide indexes
+ */
+export function getLayoutSlides(
+  show: FreeShowShow | null | undefined,
+  layoutId?: string
+): FreeShowSlide[] {
+  if (!show?.slides) return [];
+
+  const layout = getShowLayout(show, layoutId);
+  if (!layout?.slides) return show.slides;
+
+  return Object.values(layout.slides).map(
+    layoutSlide =>
+      show.slides?.find(slide => slide.id === layoutSlide.id) ?? {
+        id: layoutSlide.id,
+        missing: true,
+      }
+  );
+}
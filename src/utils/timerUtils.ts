@@ -0,0 +1,25 @@
+/**
+ * Format a number of seconds as m:ss, or h:mm:ss past an hour
+ * Negative values are shown with a leading minus, as FreeShow counts past zero
+ */
+export const formatTimerSeconds = (totalSeconds: number | null): string => {
+  if (totalSeconds === null) return '--:--';
+
+  const sign = totalSeconds < 0 ? '-' : '';
+  const seconds = Math.floor(Math.abs(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${sign}${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${sign}${minutes}:${secs}`;
+};
+
+/**
+ * Parse a minutes value typed by the operator, allowing decimals like "2.5"
+ */
+export const parseMinutes = (input: string): number | null => {
+  const minutes = parseFloat(input.replace(',', '.'));
+  return isNaN(minutes) || minutes <= 0 ? null : Math.round(minutes * 60);
+};